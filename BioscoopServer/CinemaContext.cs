@@ -9,6 +9,15 @@ public class CinemaContext : DbContext
     public DbSet<Reservation> Reservations => Set<Reservation>();
     public DbSet<Seat> Seats => Set<Seat>();
     public DbSet<Review> Reviews => Set<Review>();
+    public DbSet<SeatHold> SeatHolds => Set<SeatHold>();
+    public DbSet<CheckIn> CheckIns => Set<CheckIn>();
+    public DbSet<WaitlistEntry> WaitlistEntries => Set<WaitlistEntry>();
+    public DbSet<Voucher> Vouchers => Set<Voucher>();
+    public DbSet<VoucherRedemption> VoucherRedemptions => Set<VoucherRedemption>();
+    public DbSet<Promotion> Promotions => Set<Promotion>();
+    public DbSet<Order> Orders => Set<Order>();
+    public DbSet<OrderPayment> OrderPayments => Set<OrderPayment>();
+    public DbSet<PointsEntry> PointsEntries => Set<PointsEntry>();
 
     public CinemaContext(DbContextOptions<CinemaContext> options) : base(options) { }
 
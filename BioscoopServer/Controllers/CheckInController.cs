@@ -0,0 +1,87 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+using BioscoopServer.Services;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/CheckIns")]
+    public class CheckInController : ControllerBase
+    {
+        private readonly DBCheckInService _DBCheckInService;
+        private readonly DBReservationService _DBReservationService;
+        private readonly DBOrderService _DBOrderService;
+        private readonly TicketCodeService _ticketCodes;
+
+        public CheckInController(DBCheckInService DBCheckInService, DBReservationService DBReservationService, DBOrderService DBOrderService, TicketCodeService ticketCodes)
+        {
+            _DBCheckInService = DBCheckInService;
+            _DBReservationService = DBReservationService;
+            _DBOrderService = DBOrderService;
+            _ticketCodes = ticketCodes;
+        }
+
+        [HttpGet("GetByShow")]
+        public async Task<IActionResult> GetCheckIns([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var checkIns = await _DBCheckInService.GetByShowAsync(showId);
+            return Ok(checkIns.Select(ToCheckIn));
+        }
+
+        // Lets a ticket in at the entrance of a room. 400/404 with the reason when it is not
+        // for the show letting in there now, 409 Conflict with the earlier check-in when the
+        // ticket was already scanned.
+        [HttpPost("Create")]
+        public async Task<IActionResult> CreateCheckIn([FromBody] CheckInDTO checkInModel)
+        {
+            if (checkInModel == null || string.IsNullOrWhiteSpace(checkInModel.Code))
+                return BadRequest("A ticket code is required.");
+
+            if (!Guid.TryParse(checkInModel.RoomId, out var roomId))
+                return BadRequest("Invalid room ID format");
+
+            var reference = _ticketCodes.ReadCode(checkInModel.Code);
+            if (reference == null)
+                return BadRequest("This is not a valid Biscoop ticket.");
+
+            var reservation = await _DBReservationService.GetWithDetailsAsync(reference.Value.reservationId);
+            if (reservation == null)
+            {
+                // the order is kept when its reservation is cancelled
+                var order = await _DBOrderService.GetByReservationAsync(reference.Value.reservationId);
+                return NotFound(order != null ? "This booking was cancelled." : "Booking not found.");
+            }
+            if (reservation.ShowId != reference.Value.showId)
+                return BadRequest("This ticket does not match its booking.");
+
+            // show times are local, like DateTime.Now
+            var show = reservation.Show;
+            var now = DateTime.Now;
+            if (show.RoomId != roomId)
+                return BadRequest($"Wrong room: this ticket is for {show.Zaal.Naam}.");
+            if (show.Begintijd!.Value.Date != now.Date)
+                return BadRequest($"Wrong day: this ticket is for {show.Begintijd:dd/MM/yyyy HH:mm}.");
+            if (show.Begintijd.Value.AddMinutes(-DBCheckInService.CheckInOpensMinutes) > now || show.Eindtijd <= now)
+                return BadRequest($"Wrong show: this ticket is for the show at {show.Begintijd:dd/MM/yyyy HH:mm}.");
+
+            var (checkIn, isNew) = await _DBCheckInService.CheckInAsync(reservation);
+            return isNew ? Ok(ToCheckIn(checkIn)) : Conflict(ToCheckIn(checkIn));
+        }
+
+        private static object ToCheckIn(CheckIn checkIn)
+        {
+            return new
+            {
+                reservationId = checkIn.ReservationId.ToString(),
+                showId = checkIn.ShowId.ToString(),
+                seats = checkIn.Seats.Split(',', StringSplitOptions.RemoveEmptyEntries),
+                checkedInAt = DateTime.SpecifyKind(checkIn.CheckedInAt, DateTimeKind.Utc),
+            };
+        }
+    }
+}
@@ -0,0 +1,239 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+using BioscoopServer.Services;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Orders")]
+    public class OrderController : ControllerBase
+    {
+        private readonly DBOrderService _DBOrderService;
+        private readonly DBShowService _DBShowService;
+        private readonly DBReservationService _DBReservationService;
+        private readonly DBSeatHoldService _DBSeatHoldService;
+        private readonly DBWaitlistService _DBWaitlistService;
+        private readonly CinemaContext _context;
+
+        public OrderController(DBOrderService DBOrderService, DBShowService DBShowService, DBReservationService DBReservationService, DBSeatHoldService DBSeatHoldService, DBWaitlistService DBWaitlistService, CinemaContext context)
+        {
+            _DBOrderService = DBOrderService;
+            _DBShowService = DBShowService;
+            _DBReservationService = DBReservationService;
+            _DBSeatHoldService = DBSeatHoldService;
+            _DBWaitlistService = DBWaitlistService;
+            _context = context;
+        }
+
+        [HttpGet("GetByReservation")]
+        public async Task<IActionResult> GetOrder([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var order = await _DBOrderService.GetByReservationAsync(reservationId);
+            if (order == null)
+                return NotFound($"No order for reservation {id}");
+
+            return Ok(ToOrder(order));
+        }
+
+        // The price of an order before paying, 409 Conflict with the reason when a voucher can't be used
+        [HttpPost("Quote")]
+        public async Task<IActionResult> QuoteOrder([FromBody] OrderDTO orderModel)
+        {
+            var (show, user, invalid) = await ReadOrderAsync(orderModel);
+            if (invalid != null)
+                return invalid;
+
+            var (breakdown, problem) = await _DBOrderService.QuoteAsync(show!, user!, orderModel.Seats, orderModel.Tickets, orderModel.FreeTickets, orderModel.VoucherCodes);
+            if (problem != null)
+                return Conflict(problem);
+
+            return Ok(breakdown);
+        }
+
+        // Reserves the seats of a paid order. 409 Conflict with the reason when the seats are
+        // taken or the price is no longer what was paid, the payment is not kept then.
+        [HttpPost("Create")]
+        public async Task<IActionResult> CreateOrder([FromBody] OrderDTO orderModel)
+        {
+            var (show, user, invalid) = await ReadOrderAsync(orderModel);
+            if (invalid != null)
+                return invalid;
+
+            var reservedSeats = await _DBReservationService.GetReservedSeatsAsync(show!.Id);
+            var takenSeats = orderModel.Seats.Where(s => reservedSeats.Contains(s)).ToList();
+            if (takenSeats.Count > 0)
+                return Conflict($"Seats already reserved: {string.Join(", ", takenSeats)}");
+
+            var heldSeats = await _DBSeatHoldService.GetHeldByOthersAsync(show.Id, orderModel.SessionId);
+            var seatsHeldByOthers = orderModel.Seats.Where(s => heldSeats.Contains(s)).ToList();
+            if (seatsHeldByOthers.Count > 0)
+                return Conflict($"Seats are being held by someone else: {string.Join(", ", seatsHeldByOthers)}");
+
+            // seats offered to people on the waitlist aren't for sale
+            var forSale = await _DBWaitlistService.CountUnsoldSeatsAsync(show, orderModel.SessionId)
+                - await _DBWaitlistService.GetSeatsOfferedToOthersAsync(show.Id, user!.Id);
+            if (orderModel.Seats.Distinct().Count() > forSale)
+                return Conflict("These seats are offered to people on the waitlist.");
+
+            var (order, problem) = await _DBOrderService.PlaceAsync(
+                show, user, orderModel.Seats, orderModel.Tickets, orderModel.FreeTickets, orderModel.VoucherCodes, orderModel.PaymentId, orderModel.Amount);
+            if (problem != null)
+                return Conflict(problem);
+
+            // the seats are booked now, so the hold on them is no longer needed
+            if (orderModel.SessionId != null)
+                await _DBSeatHoldService.ReleaseAsync(show.Id, orderModel.SessionId);
+            // a claimed waitlist offer is done with
+            await _DBWaitlistService.LeaveAsync(show.Id, user.Id);
+
+            return Ok(ToOrder(order!));
+        }
+
+        // What a booking would cost on other seats or another show, with the free tickets and vouchers
+        // it was paid with, and the difference with what it costs now
+        [HttpPost("QuoteChange")]
+        public async Task<IActionResult> QuoteChange([FromBody] OrderChangeDTO changeModel)
+        {
+            if (changeModel == null)
+                return BadRequest("A change is required.");
+
+            if (!Guid.TryParse(changeModel.ReservationId, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            if (!Guid.TryParse(changeModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var order = await _DBOrderService.GetByReservationAsync(reservationId);
+            if (order == null)
+                return NotFound($"No order for reservation {reservationId}");
+
+            var show = await _DBShowService.GetWithDetailsAsync(showId);
+            if (show == null)
+                return NotFound($"Show with id {showId} was not found");
+
+            var user = await _context.Users.FindAsync(order.UserId);
+            var breakdown = await _DBOrderService.RepriceAsync(order, show, user!, changeModel.Seats);
+            return Ok(new { breakdown, difference = breakdown.Total - order.Total });
+        }
+
+        // Prices a changed booking again, once the difference has been settled
+        [HttpPost("Reprice")]
+        public async Task<IActionResult> RepriceOrder([FromBody] OrderChangeDTO changeModel)
+        {
+            if (changeModel == null)
+                return BadRequest("A change is required.");
+
+            if (!Guid.TryParse(changeModel.ReservationId, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var order = await _DBOrderService.GetByReservationAsync(reservationId);
+            var reservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            if (order == null || reservation == null)
+                return NotFound($"No order for reservation {reservationId}");
+
+            var user = await _context.Users.FindAsync(order.UserId);
+            var seats = reservation.Seats.Select(s => s.Stoelnummer).ToList();
+            var breakdown = await _DBOrderService.RepriceAsync(order, reservation.Show, user!, seats);
+            await _DBOrderService.SavePriceAsync(order.Id, breakdown);
+
+            var repriced = await _DBOrderService.GetByReservationAsync(reservationId);
+            return Ok(ToOrder(repriced!));
+        }
+
+        // An extra charge, e.g. the difference when a booking was changed
+        [HttpPost("AddPayment")]
+        public async Task<IActionResult> AddPayment([FromBody] OrderPaymentDTO paymentModel)
+        {
+            if (paymentModel == null || string.IsNullOrWhiteSpace(paymentModel.PaymentId))
+                return BadRequest("A payment is required.");
+            if (paymentModel.Amount <= 0)
+                return BadRequest("A payment must be worth something.");
+
+            if (!Guid.TryParse(paymentModel.ReservationId, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var order = await _DBOrderService.GetByReservationAsync(reservationId);
+            if (order == null)
+                return NotFound($"No order for reservation {reservationId}");
+
+            await _DBOrderService.AddPaymentAsync(order.Id, paymentModel.PaymentId, paymentModel.Amount);
+            return Ok();
+        }
+
+        // Records a refund the payment provider has made, 409 Conflict when it is more than is left of the payment
+        [HttpPost("Refund")]
+        public async Task<IActionResult> RecordRefund([FromBody] OrderPaymentDTO paymentModel)
+        {
+            if (paymentModel == null || string.IsNullOrWhiteSpace(paymentModel.PaymentId))
+                return BadRequest("A payment is required.");
+            if (paymentModel.Amount <= 0)
+                return BadRequest("A refund must be worth something.");
+
+            if (!Guid.TryParse(paymentModel.ReservationId, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var order = await _DBOrderService.GetByReservationAsync(reservationId);
+            if (order == null)
+                return NotFound($"No order for reservation {reservationId}");
+
+            var problem = await _DBOrderService.RecordRefundAsync(order.Id, paymentModel.PaymentId, paymentModel.Amount);
+            if (problem != null)
+                return Conflict(problem);
+
+            return Ok();
+        }
+
+        // The show and user of an order, or the response when the order can't be priced
+        private async Task<(Show? show, User? user, IActionResult? invalid)> ReadOrderAsync(OrderDTO orderModel)
+        {
+            if (orderModel == null || orderModel.Seats.Count == 0)
+                return (null, null, BadRequest("At least one seat is required."));
+
+            if (!Guid.TryParse(orderModel.UserId, out var userId))
+                return (null, null, BadRequest("Invalid user ID format"));
+
+            if (!Guid.TryParse(orderModel.ShowId, out var showId))
+                return (null, null, BadRequest("Invalid show ID format"));
+
+            var ticketCount = Pricing.TicketCount(orderModel.Tickets);
+            if (Pricing.TicketTypeNames.Any(type => Pricing.CountOf(orderModel.Tickets, type) < 0) || ticketCount != orderModel.Seats.Distinct().Count())
+                return (null, null, BadRequest("Every seat needs one ticket."));
+            if (orderModel.FreeTickets < 0 || orderModel.FreeTickets > ticketCount)
+                return (null, null, BadRequest("There are more free tickets than tickets."));
+
+            var user = await _context.Users.FindAsync(userId);
+            if (user == null)
+                return (null, null, NotFound($"User with id {userId} was not found"));
+
+            var show = await _DBShowService.GetWithDetailsAsync(showId);
+            if (show == null)
+                return (null, null, NotFound($"Show with id {showId} was not found"));
+
+            return (show, user, null);
+        }
+
+        private static object ToOrder(Order order)
+        {
+            return new
+            {
+                reservationId = order.ReservationId.ToString(),
+                userId = order.UserId.ToString(),
+                payments = order.Payments.OrderBy(p => p.PaidAt).Select(p => new
+                {
+                    paymentId = p.PaymentId,
+                    amount = p.Amount,
+                    refunded = p.Refunded,
+                }),
+                tickets = JsonSerializer.Deserialize<TicketCountsDTO>(order.Tickets),
+                breakdown = JsonSerializer.Deserialize<PriceBreakdown>(order.Breakdown),
+                paidAt = DateTime.SpecifyKind(order.PaidAt, DateTimeKind.Utc),
+            };
+        }
+    }
+}
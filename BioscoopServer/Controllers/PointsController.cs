@@ -0,0 +1,56 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Points")]
+    public class PointsController : ControllerBase
+    {
+        private readonly DBPointsService _DBPointsService;
+        private readonly CinemaContext _context;
+
+        public PointsController(DBPointsService DBPointsService, CinemaContext context)
+        {
+            _DBPointsService = DBPointsService;
+            _context = context;
+        }
+
+        // The balance and the ledger of a user, newest first. Points are earned and spent by
+        // placing and cancelling orders and by reviewing films, not through this controller.
+        [HttpGet("GetByUser")]
+        public async Task<IActionResult> GetPoints([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            var user = await _context.Users.FindAsync(userId);
+            if (user == null)
+                return NotFound($"User with id {id} was not found");
+
+            var history = await _DBPointsService.GetHistoryAsync(user);
+            return Ok(new
+            {
+                balance = user.Points,
+                history = history.Select(ToPointsEntry),
+            });
+        }
+
+        private static object ToPointsEntry(PointsEntry entry)
+        {
+            return new
+            {
+                id = entry.Id.ToString(),
+                userId = entry.UserId.ToString(),
+                points = entry.Points,
+                kind = entry.Kind,
+                description = entry.Description,
+                createdAt = DateTime.SpecifyKind(entry.CreatedAt, DateTimeKind.Utc),
+                expiresAt = entry.ExpiresAt.HasValue ? DateTime.SpecifyKind(entry.ExpiresAt.Value, DateTimeKind.Utc) : (DateTime?)null,
+                reservationId = entry.ReservationId?.ToString(),
+                filmId = entry.FilmId?.ToString(),
+            };
+        }
+    }
+}
@@ -0,0 +1,91 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Promotions")]
+    public class PromotionController : ControllerBase
+    {
+        private readonly DBPromotionService _DBPromotionService;
+
+        public PromotionController(DBPromotionService DBPromotionService)
+        {
+            _DBPromotionService = DBPromotionService;
+        }
+
+        [HttpGet("GetAll")]
+        public async Task<IActionResult> GetAllPromotions()
+        {
+            var promotions = await _DBPromotionService.GetAllAsync();
+            return Ok(promotions.Select(ToPromotion));
+        }
+
+        // Adds a new promotion (without id) or updates an existing one
+        [HttpPost("AddOrUpdate")]
+        public async Task<IActionResult> AddOrUpdatePromotion([FromBody] PromotionDTO promotionModel)
+        {
+            if (promotionModel == null)
+                return BadRequest("Promotion is required.");
+            if (string.IsNullOrWhiteSpace(promotionModel.Name))
+                return BadRequest("A promotion needs a name.");
+            if (promotionModel.Conditions.ValueKind != JsonValueKind.Object || promotionModel.Effect.ValueKind != JsonValueKind.Object)
+                return BadRequest("A promotion needs conditions and an effect.");
+            if (promotionModel.StartsAt > promotionModel.EndsAt)
+                return BadRequest("The promotion has to start before it ends.");
+
+            Guid promotionId;
+            Guid.TryParse(promotionModel.Id, out promotionId);
+
+            var promotion = new Promotion
+            {
+                Id = promotionId,
+                Name = promotionModel.Name.Trim(),
+                Description = promotionModel.Description,
+                Active = promotionModel.Active,
+                StartsAt = promotionModel.StartsAt?.ToUniversalTime(),
+                EndsAt = promotionModel.EndsAt?.ToUniversalTime(),
+                Conditions = promotionModel.Conditions.GetRawText(),
+                Effect = promotionModel.Effect.GetRawText()
+            };
+
+            await _DBPromotionService.AddOrUpdateAsync(promotion);
+            return Ok(ToPromotion(promotion));
+        }
+
+        [HttpPost("Delete")]
+        public async Task<IActionResult> DeletePromotion([FromBody] PromotionDTO promotionModel)
+        {
+            if (promotionModel == null)
+                return BadRequest("Promotion is required.");
+
+            if (!Guid.TryParse(promotionModel.Id, out var promotionId))
+                return BadRequest("Promotion Id is invalid");
+
+            var promotion = await _DBPromotionService.GetByIdAsync(promotionId);
+            if (promotion == null)
+                return NotFound($"Promotion with id {promotionId} was not found");
+
+            await _DBPromotionService.DeleteAsync(promotion);
+            return Ok();
+        }
+
+        private static object ToPromotion(Promotion promotion)
+        {
+            return new
+            {
+                id = promotion.Id.ToString(),
+                name = promotion.Name,
+                description = promotion.Description ?? "",
+                active = promotion.Active,
+                startsAt = promotion.StartsAt == null ? (DateTime?)null : DateTime.SpecifyKind(promotion.StartsAt.Value, DateTimeKind.Utc),
+                endsAt = promotion.EndsAt == null ? (DateTime?)null : DateTime.SpecifyKind(promotion.EndsAt.Value, DateTimeKind.Utc),
+                conditions = JsonDocument.Parse(promotion.Conditions).RootElement,
+                effect = JsonDocument.Parse(promotion.Effect).RootElement,
+            };
+        }
+    }
+}
@@ -0,0 +1,205 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Reservations")]
+    public class ReservationController : ControllerBase
+    {
+        private readonly DBReservationService _DBReservationService;
+        private readonly DBSeatHoldService _DBSeatHoldService;
+        private readonly DBPointsService _DBPointsService;
+        private readonly DBVoucherService _DBVoucherService;
+        private readonly CinemaContext _context;
+
+        public ReservationController(DBReservationService DBReservationService, DBSeatHoldService DBSeatHoldService, DBPointsService DBPointsService, DBVoucherService DBVoucherService, CinemaContext context)
+        {
+            _DBReservationService = DBReservationService;
+            _DBSeatHoldService = DBSeatHoldService;
+            _DBPointsService = DBPointsService;
+            _DBVoucherService = DBVoucherService;
+            _context = context;
+        }
+
+        [HttpGet("GetByShow")]
+        public async Task<IActionResult> GetReservedSeats([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var seats = await _DBReservationService.GetReservedSeatsAsync(showId);
+            return Ok(seats);
+        }
+
+        [HttpGet("GetById")]
+        public async Task<IActionResult> GetReservationById([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var reservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            if (reservation == null)
+                return NotFound($"Reservation with id {id} was not found");
+
+            return Ok(ToBooking(reservation));
+        }
+
+        [HttpPost("Cancel")]
+        public async Task<IActionResult> CancelReservation([FromBody] ReservationDTO reservationModel)
+        {
+            if (reservationModel == null)
+                return BadRequest("Reservation is required.");
+
+            if (!Guid.TryParse(reservationModel.Id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var reservation = await _DBReservationService.GetByIdAsync(reservationId);
+            if (reservation == null)
+                return NotFound($"Reservation with id {reservationId} was not found");
+
+            var details = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            if (details?.Show.Begintijd <= DateTime.Now)
+                return BadRequest("The show has already started, this reservation can no longer be cancelled.");
+
+            // the points and vouchers spent on it come back, the card payment is refunded by the app
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            await _DBPointsService.ReverseForReservationAsync(reservationId);
+            var restoredVouchers = await _DBVoucherService.RestoreForReservationAsync(reservationId);
+            // seats are removed with the reservation (cascade), which frees them for the show
+            await _DBReservationService.DeleteAsync(reservation);
+            await transaction.CommitAsync();
+            return Ok(new { message = "Reservation cancelled successfully", restoredVouchers });
+        }
+
+        [HttpPost("ChangeSeats")]
+        public async Task<IActionResult> ChangeSeats([FromBody] ReservationDTO reservationModel)
+        {
+            if (reservationModel == null || reservationModel.Seats.Count == 0)
+                return BadRequest("At least one seat is required.");
+
+            if (!Guid.TryParse(reservationModel.Id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var reservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            if (reservation == null)
+                return NotFound($"Reservation with id {reservationId} was not found");
+
+            // the reservation's own seats don't count as taken
+            var ownSeats = reservation.Seats.Select(s => s.Stoelnummer).ToList();
+            var reservedSeats = await _DBReservationService.GetReservedSeatsAsync(reservation.ShowId);
+            var takenSeats = reservationModel.Seats
+                .Where(s => reservedSeats.Contains(s) && !ownSeats.Contains(s))
+                .ToList();
+            if (takenSeats.Count > 0)
+                return Conflict($"Seats already reserved: {string.Join(", ", takenSeats)}");
+
+            var heldSeats = await _DBSeatHoldService.GetHeldByOthersAsync(reservation.ShowId, reservationModel.SessionId);
+            var seatsHeldByOthers = reservationModel.Seats.Where(s => heldSeats.Contains(s)).ToList();
+            if (seatsHeldByOthers.Count > 0)
+                return Conflict($"Seats are being held by someone else: {string.Join(", ", seatsHeldByOthers)}");
+
+            await _DBReservationService.ChangeSeatsAsync(reservationId, reservationModel.Seats);
+            if (reservationModel.SessionId != null)
+                await _DBSeatHoldService.ReleaseAsync(reservation.ShowId, reservationModel.SessionId);
+
+            var updatedReservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            return Ok(ToBooking(updatedReservation!));
+        }
+
+        [HttpPost("Move")]
+        public async Task<IActionResult> MoveReservation([FromBody] ReservationDTO reservationModel)
+        {
+            if (reservationModel == null || reservationModel.Seats.Count == 0)
+                return BadRequest("At least one seat is required.");
+
+            if (!Guid.TryParse(reservationModel.Id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            if (!Guid.TryParse(reservationModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var reservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            if (reservation == null)
+                return NotFound($"Reservation with id {reservationId} was not found");
+
+            var show = await _context.Shows.FindAsync(showId);
+            if (show == null)
+                return NotFound($"Show with id {showId} was not found");
+
+            if (show.FilmId != reservation.Show.FilmId)
+                return BadRequest("A reservation can only be moved to a show of the same film.");
+
+            if (reservation.Show.Begintijd <= DateTime.Now || show.Begintijd <= DateTime.Now)
+                return BadRequest("Shows that have already started can't be changed.");
+
+            // on the same show the reservation's own seats don't count as taken
+            var ownSeats = showId == reservation.ShowId
+                ? reservation.Seats.Select(s => s.Stoelnummer).ToList()
+                : new List<string>();
+            var reservedSeats = await _DBReservationService.GetReservedSeatsAsync(showId);
+            var takenSeats = reservationModel.Seats
+                .Where(s => reservedSeats.Contains(s) && !ownSeats.Contains(s))
+                .ToList();
+            if (takenSeats.Count > 0)
+                return Conflict($"Seats already reserved: {string.Join(", ", takenSeats)}");
+
+            var heldSeats = await _DBSeatHoldService.GetHeldByOthersAsync(showId, reservationModel.SessionId);
+            var seatsHeldByOthers = reservationModel.Seats.Where(s => heldSeats.Contains(s)).ToList();
+            if (seatsHeldByOthers.Count > 0)
+                return Conflict($"Seats are being held by someone else: {string.Join(", ", seatsHeldByOthers)}");
+
+            await _DBReservationService.MoveAsync(reservationId, showId, reservationModel.Seats);
+            if (reservationModel.SessionId != null)
+                await _DBSeatHoldService.ReleaseAsync(showId, reservationModel.SessionId);
+
+            var movedReservation = await _DBReservationService.GetWithDetailsAsync(reservationId);
+            return Ok(ToBooking(movedReservation!));
+        }
+
+        // Without the navigation cycles
+        private static object ToBooking(Reservation reservation)
+        {
+            return new
+            {
+                id = reservation.Id.ToString(),
+                userId = reservation.UserId.ToString(),
+                showId = reservation.ShowId.ToString(),
+                show = new
+                {
+                    id = reservation.Show.Id.ToString(),
+                    filmId = reservation.Show.FilmId.ToString(),
+                    roomId = reservation.Show.RoomId.ToString(),
+                    begintijd = reservation.Show.Begintijd,
+                    eindtijd = reservation.Show.Eindtijd,
+                    film = new
+                    {
+                        id = reservation.Show.Film.Id.ToString(),
+                        name = reservation.Show.Film.Name,
+                        duration = reservation.Show.Film.Duration,
+                        rating = reservation.Show.Film.Rating,
+                        genre = reservation.Show.Film.Genre,
+                    },
+                    zaal = new
+                    {
+                        id = reservation.Show.Zaal.Id.ToString(),
+                        naam = reservation.Show.Zaal.Naam,
+                        rijen = reservation.Show.Zaal.Rijen,
+                        stoelenPerRij = reservation.Show.Zaal.StoelenPerRij,
+                        layout = reservation.Show.Zaal.Layout,
+                        firstRowAtScreen = reservation.Show.Zaal.FirstRowAtScreen,
+                        numberFromLeft = reservation.Show.Zaal.NumberFromLeft,
+                    },
+                },
+                seats = reservation.Seats.Select(s => new
+                {
+                    id = s.Id.ToString(),
+                    reservationId = s.ReservationId.ToString(),
+                    stoelnummer = s.Stoelnummer,
+                }),
+            };
+        }
+    }
+}
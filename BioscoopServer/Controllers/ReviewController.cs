@@ -11,11 +11,13 @@ namespace Controllers
     public class ReviewController : ControllerBase
     {
         private readonly DBReviewServices _DBReviewService;
+        private readonly DBPointsService _DBPointsService;
         private readonly CinemaContext _context;
 
-        public ReviewController(DBReviewServices DBReviewService, CinemaContext context)
+        public ReviewController(DBReviewServices DBReviewService, DBPointsService DBPointsService, CinemaContext context)
         {
             _DBReviewService = DBReviewService;
+            _DBPointsService = DBPointsService;
             _context = context;
         }
 
@@ -49,6 +51,7 @@ namespace Controllers
             };
 
             var addedReview = await _DBReviewService.AddAsync(review);
+            await _DBPointsService.AwardReviewBonusAsync(user, film);
 
             var responseDTO = new ReviewDTO
             {
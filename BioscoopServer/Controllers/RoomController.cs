@@ -48,7 +48,12 @@ namespace Controllers
                 Id = RoomId,
                 Naam = RoomModel.Naam,
                 Rijen = RoomModel.Rijen,
-                StoelenPerRij = RoomModel.StoelenPerRij
+                StoelenPerRij = RoomModel.StoelenPerRij,
+                Layout = RoomModel.Layout,
+                FirstRowAtScreen = RoomModel.FirstRowAtScreen,
+                NumberFromLeft = RoomModel.NumberFromLeft,
+                BasePrice = RoomModel.BasePrice,
+                CleaningMinutes = RoomModel.CleaningMinutes
             };
 
             var addedRoom = await _DBRoomService.AddOrUpdateAsync(Room);
@@ -68,7 +73,12 @@ namespace Controllers
                     Id = RoomId,
                     Naam = RoomModel.Naam,
                     Rijen = RoomModel.Rijen,
-                    StoelenPerRij = RoomModel.StoelenPerRij
+                    StoelenPerRij = RoomModel.StoelenPerRij,
+                    Layout = RoomModel.Layout,
+                    FirstRowAtScreen = RoomModel.FirstRowAtScreen,
+                    NumberFromLeft = RoomModel.NumberFromLeft,
+                    BasePrice = RoomModel.BasePrice,
+                    CleaningMinutes = RoomModel.CleaningMinutes
                 };
 
                 await _DBRoomService.DeleteAsync(Room);
@@ -0,0 +1,76 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/SeatHolds")]
+    public class SeatHoldController : ControllerBase
+    {
+        private readonly DBSeatHoldService _DBSeatHoldService;
+
+        public SeatHoldController(DBSeatHoldService DBSeatHoldService)
+        {
+            _DBSeatHoldService = DBSeatHoldService;
+        }
+
+        // The session's own hold for a show (if any) and the seats everyone else holds
+        [HttpGet("GetByShow")]
+        public async Task<IActionResult> GetHolds([FromQuery] string id, [FromQuery] string? sessionId)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var holds = await _DBSeatHoldService.GetActiveAsync(showId);
+            var own = holds.Where(h => h.SessionId == sessionId).ToList();
+            return Ok(new
+            {
+                own = own.Count > 0 ? ToHold(showId, own) : null,
+                heldByOthers = holds.Where(h => h.SessionId != sessionId).Select(h => h.Stoelnummer),
+            });
+        }
+
+        [HttpPost("Hold")]
+        public async Task<IActionResult> HoldSeats([FromBody] SeatHoldDTO holdModel)
+        {
+            if (holdModel == null || holdModel.Seats.Count == 0 || string.IsNullOrWhiteSpace(holdModel.SessionId))
+                return BadRequest("A session and at least one seat are required.");
+
+            if (!Guid.TryParse(holdModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var (hold, taken) = await _DBSeatHoldService.HoldAsync(showId, holdModel.SessionId, holdModel.Seats);
+            if (taken.Count > 0)
+                return Conflict($"Seats are no longer available: {string.Join(", ", taken)}");
+
+            return Ok(ToHold(showId, hold));
+        }
+
+        [HttpPost("Release")]
+        public async Task<IActionResult> ReleaseHold([FromBody] SeatHoldDTO holdModel)
+        {
+            if (holdModel == null || string.IsNullOrWhiteSpace(holdModel.SessionId))
+                return BadRequest("A session is required.");
+
+            if (!Guid.TryParse(holdModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            await _DBSeatHoldService.ReleaseAsync(showId, holdModel.SessionId);
+            return Ok();
+        }
+
+        // expiresAt in epoch milliseconds
+        private static object ToHold(Guid showId, List<SeatHold> seats)
+        {
+            return new
+            {
+                showId = showId.ToString(),
+                sessionId = seats[0].SessionId,
+                seats = seats.Select(h => h.Stoelnummer),
+                expiresAt = new DateTimeOffset(DateTime.SpecifyKind(seats[0].ExpiresAt, DateTimeKind.Utc)).ToUnixTimeMilliseconds(),
+            };
+        }
+    }
+}
@@ -0,0 +1,196 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Shows")]
+    public class ShowController : ControllerBase
+    {
+        private readonly DBShowService _DBShowService;
+        private readonly DBFilmService _DBFilmService;
+        private readonly DBRoomService _DBRoomService;
+
+        public ShowController(DBShowService DBShowService, DBFilmService DBFilmService, DBRoomService DBRoomService)
+        {
+            _DBShowService = DBShowService;
+            _DBFilmService = DBFilmService;
+            _DBRoomService = DBRoomService;
+        }
+
+        [HttpGet("GetById")]
+        public async Task<IActionResult> GetShowById([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var show = await _DBShowService.GetByIdAsync(showId);
+            if (show == null)
+            {
+                return BadRequest($"Show with id {id} was not found");
+            }
+            return Ok(show);
+        }
+
+        [HttpGet("GetAll")]
+        public async Task<IActionResult> GetAllShows()
+        {
+            var shows = await _DBShowService.GetAllAsync();
+            return Ok(shows);
+        }
+
+        [HttpGet("GetByFilm")]
+        public async Task<IActionResult> GetShowsByFilm([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var filmId))
+                return BadRequest("Invalid film ID format");
+
+            var shows = await _DBShowService.GetByFilmAsync(filmId);
+            return Ok(shows);
+        }
+
+        [HttpGet("GetByRoom")]
+        public async Task<IActionResult> GetShowsByRoom([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var roomId))
+                return BadRequest("Invalid room ID format");
+
+            var shows = await _DBShowService.GetByRoomAsync(roomId);
+            return Ok(shows);
+        }
+
+        [HttpGet("GetBySeries")]
+        public async Task<IActionResult> GetShowsBySeries([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var seriesId))
+                return BadRequest("Invalid series ID format");
+
+            var shows = await _DBShowService.GetBySeriesAsync(seriesId);
+            return Ok(shows);
+        }
+
+        [HttpPost("AddOrUpdate")]
+        public async Task<IActionResult> AddOrUpdateShow([FromBody] ShowDTO showModel)
+        {
+            if (showModel == null)
+                return BadRequest("Show is required.");
+
+            var (show, error) = await ToShowAsync(showModel);
+            if (show == null)
+                return BadRequest(error);
+
+            var (addedShow, conflict) = await _DBShowService.ScheduleAsync(show);
+            if (conflict != null)
+                return Conflict(conflict);
+
+            return Ok(addedShow);
+        }
+
+        [HttpPost("SaveSeries")]
+        public async Task<IActionResult> SaveSeries([FromBody] ShowSeriesDTO seriesModel)
+        {
+            if (seriesModel == null || seriesModel.Shows.Count == 0)
+                return BadRequest("A series needs at least one show.");
+
+            var seriesId = Guid.NewGuid();
+            if (seriesModel.SeriesId != null && !Guid.TryParse(seriesModel.SeriesId, out seriesId))
+                return BadRequest("Series Id is invalid");
+
+            var shows = new List<Show>();
+            foreach (var showModel in seriesModel.Shows)
+            {
+                var (show, error) = await ToShowAsync(showModel);
+                if (show == null)
+                    return BadRequest($"{showModel.Begintijd}: {error}");
+                shows.Add(show);
+            }
+
+            var (savedShows, conflict) = await _DBShowService.SaveSeriesAsync(seriesId, shows);
+            if (conflict != null)
+                return Conflict(conflict);
+
+            return Ok(savedShows);
+        }
+
+        // Cancels the upcoming shows of a series, 409 Conflict when some of them have reservations
+        [HttpPost("CancelSeries")]
+        public async Task<IActionResult> CancelSeries([FromBody] ShowSeriesDTO seriesModel)
+        {
+            if (seriesModel == null || !Guid.TryParse(seriesModel.SeriesId, out var seriesId))
+                return BadRequest("Series Id is invalid");
+
+            var conflict = await _DBShowService.CancelSeriesAsync(seriesId);
+            if (conflict != null)
+                return Conflict(conflict);
+
+            return Ok();
+        }
+
+        // 409 Conflict while the show has reservations, they are paid for and are cancelled
+        // (and refunded) one by one first
+        [HttpPost("Delete")]
+        public async Task<IActionResult> DeleteShow([FromBody] ShowDTO showModel)
+        {
+            if (showModel == null)
+                return BadRequest("Show is required.");
+
+            if (!Guid.TryParse(showModel.Id, out var showId))
+                return BadRequest("Show Id is invalid");
+
+            var show = await _DBShowService.GetByIdAsync(showId);
+            if (show == null)
+                return NotFound($"Show with id {showModel.Id} was not found");
+
+            var reservations = await _DBShowService.CountReservationsAsync(showId);
+            if (reservations > 0)
+                return Conflict($"This show has {reservations} reservation(s). They have to be cancelled and refunded before the show can be deleted.");
+
+            await _DBShowService.DeleteAsync(show);
+            return Ok();
+        }
+
+        // Show times are the cinema's local time without an offset. A time sent with an
+        // offset (e.g. ...Z) is turned into local time first, so it isn't stored as UTC.
+        private static DateTime ToLocalTime(DateTime time)
+        {
+            var local = time.Kind == DateTimeKind.Utc ? time.ToLocalTime() : time;
+            return DateTime.SpecifyKind(local, DateTimeKind.Unspecified);
+        }
+
+        // Checks a ShowDTO and turns it into a Show, or gives the reason it can't be
+        private async Task<(Show? show, string? error)> ToShowAsync(ShowDTO showModel)
+        {
+            if (!Guid.TryParse(showModel.FilmId, out var filmId) || await _DBFilmService.GetByIdAsync(filmId) == null)
+                return (null, "Film not found");
+
+            if (!Guid.TryParse(showModel.RoomId, out var roomId) || await _DBRoomService.GetByIdAsync(roomId) == null)
+                return (null, "Room not found");
+
+            if (showModel.Begintijd == null || showModel.Eindtijd == null || showModel.Begintijd >= showModel.Eindtijd)
+                return (null, "A show needs a begintijd before its eindtijd");
+
+            if (showModel.PreShowMinutes < 0 || showModel.IntermissionMinutes < 0)
+                return (null, "Pre-show and intermission can't be negative");
+
+            Guid showId;
+            Guid.TryParse(showModel.Id, out showId);
+
+            Guid? seriesId = Guid.TryParse(showModel.SeriesId, out var parsedSeriesId) ? parsedSeriesId : null;
+
+            return (new Show
+            {
+                Id = showId,
+                FilmId = filmId,
+                RoomId = roomId,
+                Begintijd = ToLocalTime(showModel.Begintijd.Value),
+                Eindtijd = ToLocalTime(showModel.Eindtijd.Value),
+                Price = showModel.Price,
+                SeriesId = seriesId,
+                PreShowMinutes = showModel.PreShowMinutes ?? DBShowService.DefaultPreShowMinutes,
+                IntermissionMinutes = showModel.IntermissionMinutes ?? 0
+            }, null);
+        }
+    }
+}
@@ -0,0 +1,53 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+using BioscoopServer.Services;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Tickets")]
+    public class TicketController : ControllerBase
+    {
+        private readonly TicketCodeService _ticketCodes;
+        private readonly DBReservationService _DBReservationService;
+
+        public TicketController(TicketCodeService ticketCodes, DBReservationService DBReservationService)
+        {
+            _ticketCodes = ticketCodes;
+            _DBReservationService = DBReservationService;
+        }
+
+        // The signed code for a reservation's QR code
+        [HttpGet("GetCode")]
+        public async Task<IActionResult> GetTicketCode([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var reservationId))
+                return BadRequest("Invalid reservation ID format");
+
+            var reservation = await _DBReservationService.GetByIdAsync(reservationId);
+            if (reservation == null)
+                return NotFound($"Reservation with id {id} was not found");
+
+            return Ok(new { code = _ticketCodes.CreateCode(reservation.Id, reservation.ShowId) });
+        }
+
+        // Checks the signature of a scanned code, the booking itself is looked up separately
+        [HttpPost("Verify")]
+        public IActionResult VerifyTicketCode([FromBody] TicketCodeDTO codeModel)
+        {
+            if (codeModel == null || string.IsNullOrWhiteSpace(codeModel.Code))
+                return BadRequest("A code is required.");
+
+            var reference = _ticketCodes.ReadCode(codeModel.Code);
+            if (reference == null)
+                return BadRequest("This is not a valid Biscoop ticket.");
+
+            return Ok(new
+            {
+                reservationId = reference.Value.reservationId.ToString(),
+                showId = reference.Value.showId.ToString(),
+            });
+        }
+    }
+}
@@ -38,7 +38,8 @@ namespace Controllers
                 Id = user.Id.ToString(),
                 Email = user.Email,
                 FirstName = user.FirstName,
-                LastName = user.LastName
+                LastName = user.LastName,
+                EmailVerified = user.EmailVerified
             };
 
             return Ok(userDto);
@@ -63,7 +64,8 @@ namespace Controllers
                 Id = user.Id.ToString(),
                 Email = user.Email,
                 FirstName = user.FirstName,
-                LastName = user.LastName
+                LastName = user.LastName,
+                EmailVerified = user.EmailVerified
             };
 
             return Ok(userDto);
@@ -89,6 +91,12 @@ namespace Controllers
                 Console.WriteLine($"Old: {existingUser.FirstName} {existingUser.LastName}");
                 Console.WriteLine($"New: {userModel.FirstName} {userModel.LastName}");
 
+                // a new address has to be verified again
+                if (!string.Equals(existingUser.Email, userModel.Email, StringComparison.OrdinalIgnoreCase))
+                {
+                    existingUser.EmailVerified = false;
+                    existingUser.EmailVerificationCode = null;
+                }
                 existingUser.Email = userModel.Email;
                 existingUser.FirstName = userModel.FirstName;
                 existingUser.LastName = userModel.LastName;
@@ -109,7 +117,8 @@ namespace Controllers
                     Id = existingUser.Id.ToString(),
                     Email = existingUser.Email,
                     FirstName = existingUser.FirstName,
-                    LastName = existingUser.LastName
+                    LastName = existingUser.LastName,
+                    EmailVerified = existingUser.EmailVerified
                 };
 
                 return Ok(responseDto);
@@ -145,6 +154,43 @@ namespace Controllers
             }
         }
 
+        // Sends a code to the user's email address. There is no mail service yet, so the
+        // code is written to the server log.
+        [HttpPost("SendVerification")]
+        public async Task<IActionResult> SendVerification([FromBody] EmailVerificationDTO verificationModel)
+        {
+            if (verificationModel == null || !Guid.TryParse(verificationModel.UserId, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            var user = await _context.Users.FindAsync(userId);
+            if (user == null)
+                return NotFound($"User with id {userId} was not found");
+
+            var code = await _DBUserService.StartEmailVerificationAsync(user);
+            Console.WriteLine($"Verification code for {user.Email}: {code}");
+            return Ok(new { message = $"A code has been sent to {user.Email}" });
+        }
+
+        // 400 when the code is not the one that was sent
+        [HttpPost("VerifyEmail")]
+        public async Task<IActionResult> VerifyEmail([FromBody] EmailVerificationDTO verificationModel)
+        {
+            if (verificationModel == null || string.IsNullOrWhiteSpace(verificationModel.Code))
+                return BadRequest("A code is required.");
+
+            if (!Guid.TryParse(verificationModel.UserId, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            var user = await _context.Users.FindAsync(userId);
+            if (user == null)
+                return NotFound($"User with id {userId} was not found");
+
+            if (!await _DBUserService.VerifyEmailAsync(user, verificationModel.Code))
+                return BadRequest("This code is not right, ask for a new one.");
+
+            return Ok(new { message = "Email address verified" });
+        }
+
         [HttpPost("Delete")]
         public async Task<IActionResult> DeleteUser([FromBody] UserDTO userModel)
         {
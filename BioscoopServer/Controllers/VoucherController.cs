@@ -0,0 +1,89 @@
+using Microsoft.AspNetCore.Mvc;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Vouchers")]
+    public class VoucherController : ControllerBase
+    {
+        private readonly DBVoucherService _DBVoucherService;
+
+        public VoucherController(DBVoucherService DBVoucherService)
+        {
+            _DBVoucherService = DBVoucherService;
+        }
+
+        [HttpGet("GetAll")]
+        public async Task<IActionResult> GetAllVouchers()
+        {
+            var vouchers = await _DBVoucherService.GetAllWithRedemptionsAsync();
+            return Ok(vouchers.Select(ToVoucher));
+        }
+
+        [HttpGet("GetByCode")]
+        public async Task<IActionResult> GetVoucher([FromQuery] string code)
+        {
+            var voucher = await _DBVoucherService.GetByCodeAsync(code);
+            if (voucher == null)
+                return NotFound("This code does not exist.");
+
+            return Ok(ToVoucher(voucher));
+        }
+
+        [HttpPost("Generate")]
+        public async Task<IActionResult> GenerateVouchers([FromBody] NewVouchersDTO vouchersModel)
+        {
+            if (vouchersModel == null || vouchersModel.Count < 1)
+                return BadRequest("Generate at least one voucher");
+            if (vouchersModel.Kind != "value" && vouchersModel.Kind != "ticket")
+                return BadRequest("A voucher is worth a fixed value or a free ticket");
+            if (vouchersModel.UsageLimit < 1)
+                return BadRequest("A voucher must be usable at least once");
+            if (vouchersModel.Kind == "value" && vouchersModel.Value <= 0)
+                return BadRequest("A voucher must be worth something");
+
+            var expiresAt = vouchersModel.ExpiresAt.ToUniversalTime();
+            if (expiresAt <= DateTime.UtcNow)
+                return BadRequest("The expiry date must be in the future");
+
+            var created = await _DBVoucherService.GenerateAsync(
+                vouchersModel.Kind!,
+                vouchersModel.Value,
+                vouchersModel.UsageLimit,
+                expiresAt,
+                vouchersModel.Description?.Trim() ?? "",
+                vouchersModel.Count);
+            return Ok(created.Select(ToVoucher));
+        }
+
+        private static object ToVoucher(Voucher voucher)
+        {
+            return new
+            {
+                code = voucher.Code,
+                kind = voucher.Kind,
+                value = voucher.Value,
+                balance = voucher.Balance,
+                usageLimit = voucher.UsageLimit,
+                expiresAt = DateTime.SpecifyKind(voucher.ExpiresAt, DateTimeKind.Utc),
+                description = voucher.Description,
+                createdAt = DateTime.SpecifyKind(voucher.CreatedAt, DateTimeKind.Utc),
+                redemptions = voucher.Redemptions.OrderBy(r => r.RedeemedAt).Select(ToRedemption),
+            };
+        }
+
+        private static object ToRedemption(VoucherRedemption redemption)
+        {
+            return new
+            {
+                id = redemption.Id.ToString(),
+                amount = redemption.Amount,
+                redeemedAt = DateTime.SpecifyKind(redemption.RedeemedAt, DateTimeKind.Utc),
+                reservationId = redemption.ReservationId?.ToString(),
+            };
+        }
+    }
+}
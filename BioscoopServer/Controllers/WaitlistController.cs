@@ -0,0 +1,137 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using BioscoopServer.models;
+using BioscoopServer.DBServices;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace Controllers
+{
+    [ApiController]
+    [Route("api/Waitlist")]
+    public class WaitlistController : ControllerBase
+    {
+        private readonly DBWaitlistService _DBWaitlistService;
+        private readonly CinemaContext _context;
+
+        public WaitlistController(DBWaitlistService DBWaitlistService, CinemaContext context)
+        {
+            _DBWaitlistService = DBWaitlistService;
+            _context = context;
+        }
+
+        [HttpGet("GetAll")]
+        public async Task<IActionResult> GetAllWaitlists()
+        {
+            var entries = await _DBWaitlistService.GetAllActiveAsync();
+            return Ok(await ToEntries(entries));
+        }
+
+        // In order of joining
+        [HttpGet("GetByShow")]
+        public async Task<IActionResult> GetWaitlist([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var entries = await _DBWaitlistService.GetByShowAsync(showId);
+            return Ok(await ToEntries(entries));
+        }
+
+        [HttpGet("GetByUser")]
+        public async Task<IActionResult> GetEntriesForUser([FromQuery] string id)
+        {
+            if (!Guid.TryParse(id, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            var entries = await _DBWaitlistService.GetByUserAsync(userId);
+            return Ok(await ToEntries(entries));
+        }
+
+        [HttpPost("Join")]
+        public async Task<IActionResult> JoinWaitlist([FromBody] WaitlistEntryDTO entryModel)
+        {
+            if (entryModel == null || entryModel.Seats < 1)
+                return BadRequest("At least one seat is required.");
+
+            if (!Guid.TryParse(entryModel.UserId, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            if (!Guid.TryParse(entryModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            var show = await _context.Shows.FindAsync(showId);
+            if (show == null)
+                return NotFound($"Show with id {showId} was not found");
+
+            var entry = await _DBWaitlistService.JoinAsync(showId, userId, entryModel.Seats);
+            if (entry == null)
+                return Conflict("You are already on the waitlist for this show");
+
+            return Ok((await ToEntries(new List<WaitlistEntry> { entry }))[0]);
+        }
+
+        // Leaving the waitlist also declines an open offer
+        [HttpPost("Leave")]
+        public async Task<IActionResult> LeaveWaitlist([FromBody] WaitlistEntryDTO entryModel)
+        {
+            if (entryModel == null)
+                return BadRequest("Waitlist entry is required.");
+
+            if (!Guid.TryParse(entryModel.UserId, out var userId))
+                return BadRequest("Invalid user ID format");
+
+            if (!Guid.TryParse(entryModel.ShowId, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            await _DBWaitlistService.LeaveAsync(showId, userId);
+            return Ok();
+        }
+
+        // What is left of a show for a user. Seats that came free are offered to the
+        // waitlist first, so this is a POST.
+        [HttpPost("CheckAvailability")]
+        public async Task<IActionResult> CheckAvailability([FromQuery] string id, [FromQuery] string? userId)
+        {
+            if (!Guid.TryParse(id, out var showId))
+                return BadRequest("Invalid show ID format");
+
+            Guid? user = Guid.TryParse(userId, out var parsedUserId) ? parsedUserId : null;
+
+            var show = await _context.Shows.FindAsync(showId);
+            if (show == null)
+                return NotFound($"Show with id {showId} was not found");
+
+            await _DBWaitlistService.OfferFreedSeatsAsync(show);
+            var unsold = await _DBWaitlistService.CountUnsoldSeatsAsync(show);
+            var freeSeats = Math.Max(unsold - await _DBWaitlistService.GetSeatsOfferedToOthersAsync(showId, user), 0);
+            return Ok(new { freeSeats, soldOut = freeSeats == 0 });
+        }
+
+        // offerExpiresAt in epoch milliseconds
+        private async Task<List<object>> ToEntries(List<WaitlistEntry> entries)
+        {
+            var showIds = entries.Select(e => e.ShowId).Distinct().ToList();
+            var shows = await _context.Shows
+                .AsNoTracking()
+                .Include(s => s.Film)
+                .Where(s => showIds.Contains(s.Id))
+                .ToDictionaryAsync(s => s.Id);
+
+            return entries
+                .Select(e => (object)new
+                {
+                    id = e.Id.ToString(),
+                    showId = e.ShowId.ToString(),
+                    userId = e.UserId.ToString(),
+                    seats = e.Seats,
+                    joinedAt = DateTime.SpecifyKind(e.JoinedAt, DateTimeKind.Utc),
+                    filmName = shows.GetValueOrDefault(e.ShowId)?.Film.Name,
+                    begintijd = shows.GetValueOrDefault(e.ShowId)?.Begintijd,
+                    offerExpiresAt = e.OfferExpiresAt == null
+                        ? (long?)null
+                        : new DateTimeOffset(DateTime.SpecifyKind(e.OfferExpiresAt.Value, DateTimeKind.Utc)).ToUnixTimeMilliseconds(),
+                })
+                .ToList();
+        }
+    }
+}
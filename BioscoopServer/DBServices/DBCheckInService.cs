@@ -0,0 +1,58 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBCheckInService : DBDefaultService<CheckIn>
+    {
+        // The doors open this long before a show starts and close when it ends
+        public const int CheckInOpensMinutes = 45;
+
+        public DBCheckInService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(CheckIn entity, out CheckIn? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(c => c.ReservationId == entity.ReservationId);
+            return existing != null;
+        }
+
+        public async Task<List<CheckIn>> GetByShowAsync(Guid showId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Where(c => c.ShowId == showId)
+                .OrderBy(c => c.CheckedInAt)
+                .ToListAsync();
+        }
+
+        // Checks a reservation in, or gives the earlier check-in when it already was.
+        // The unique index on ReservationId decides when two doors scan at the same time.
+        public async Task<(CheckIn checkIn, bool isNew)> CheckInAsync(Reservation reservation)
+        {
+            var checkIn = new CheckIn
+            {
+                Id = Guid.NewGuid(),
+                ReservationId = reservation.Id,
+                ShowId = reservation.ShowId,
+                Seats = string.Join(",", reservation.Seats.Select(s => s.Stoelnummer)),
+                CheckedInAt = DateTime.UtcNow
+            };
+
+            if (Exists(checkIn, out var earlier))
+                return (earlier!, false);
+
+            try
+            {
+                await _dbSet.AddAsync(checkIn);
+                await _context.SaveChangesAsync();
+                return (checkIn, true);
+            }
+            catch (DbUpdateException)
+            {
+                _context.Entry(checkIn).State = EntityState.Detached;
+                Exists(checkIn, out earlier);
+                return (earlier!, false);
+            }
+        }
+    }
+}
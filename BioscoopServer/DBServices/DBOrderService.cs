@@ -0,0 +1,209 @@
+using System.Text.Json;
+using BioscoopServer.models;
+using BioscoopServer.Models.ModelsDTOs;
+using BioscoopServer.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBOrderService : DBDefaultService<Order>
+    {
+        private readonly DBPointsService _DBPointsService;
+
+        public DBOrderService(CinemaContext context, DBPointsService DBPointsService) : base(context)
+        {
+            _DBPointsService = DBPointsService;
+        }
+
+        public override bool Exists(Order entity, out Order? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(o => o.Id == entity.Id);
+            return existing != null;
+        }
+
+        public async Task<Order?> GetByReservationAsync(Guid reservationId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Include(o => o.Payments)
+                .FirstOrDefaultAsync(o => o.ReservationId == reservationId);
+        }
+
+        // The ticket price with the best promotion and the free tickets taken off
+        private async Task<PriceBreakdown> PriceTicketsAsync(Show show, User user, List<string> seats, TicketCountsDTO tickets, int freeTickets)
+        {
+            var promotions = await _context.Set<Promotion>().AsNoTracking().ToListAsync();
+            var gross = PromotionRules.Apply(Pricing.PriceTickets(show, tickets, seats), promotions, show, tickets, user.EmailVerified ? user.Email : null);
+            return freeTickets > 0
+                ? Pricing.AddDiscount(gross, $"Free ticket(s) for {freeTickets * Pricing.FreeTicketPoints} points", Pricing.FreeTicketsValue(gross, freeTickets))
+                : gross;
+        }
+
+        // What the customer pays for these tickets: the ticket price, the best promotion,
+        // free tickets and then the vouchers, or why the order can't be priced
+        private async Task<(PriceBreakdown? breakdown, List<(Voucher voucher, int amount)> vouchers, string? problem)> PriceAsync(
+            Show show, User user, List<string> seats, TicketCountsDTO tickets, int freeTickets, List<string> voucherCodes)
+        {
+            var vouchers = new List<(Voucher voucher, int amount)>();
+            if (freeTickets > 0 && freeTickets * Pricing.FreeTicketPoints > await _DBPointsService.GetBalanceAsync(user))
+                return (null, vouchers, $"Not enough loyalty points for {freeTickets} free ticket(s).");
+
+            var breakdown = await PriceTicketsAsync(show, user, seats, tickets, freeTickets);
+
+            foreach (var code in voucherCodes.Select(DBVoucherService.NormalizeCode).Distinct())
+            {
+                var voucher = await _context.Set<Voucher>()
+                    .Include(v => v.Redemptions)
+                    .FirstOrDefaultAsync(v => v.Code == code);
+                var problem = DBVoucherService.Problem(voucher);
+                if (problem != null)
+                    return (null, vouchers, $"{code}: {problem}");
+
+                var amount = Math.Min(voucher!.Kind == "value" ? voucher.Balance : Pricing.HighestTicketPrice(breakdown), breakdown.Total);
+                vouchers.Add((voucher, amount));
+                breakdown = Pricing.AddDiscount(breakdown, $"Voucher {code}", amount);
+            }
+
+            return (breakdown, vouchers, null);
+        }
+
+        public async Task<(PriceBreakdown? breakdown, string? problem)> QuoteAsync(
+            Show show, User user, List<string> seats, TicketCountsDTO tickets, int freeTickets, List<string> voucherCodes)
+        {
+            var (breakdown, _, problem) = await PriceAsync(show, user, seats, tickets, freeTickets, voucherCodes);
+            return (breakdown, problem);
+        }
+
+        // Prices the order again and, when that is what was paid, reserves the seats, debits
+        // the vouchers and points, adds the points earned and records the order in one
+        // transaction. Returns why it didn't go through otherwise; the payment then has to be
+        // given back.
+        public async Task<(Order? order, string? problem)> PlaceAsync(
+            Show show, User user, List<string> seats, TicketCountsDTO tickets, int freeTickets, List<string> voucherCodes, string? paymentId, int amount)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var (breakdown, vouchers, problem) = await PriceAsync(show, user, seats, tickets, freeTickets, voucherCodes);
+            if (problem != null)
+                return (null, problem);
+            if (breakdown!.Total != amount)
+                return (null, "The price of this order has changed, please check it and pay again.");
+            if (breakdown.Total > 0 && string.IsNullOrWhiteSpace(paymentId))
+                return (null, "This order has not been paid for.");
+
+            var reservationId = Guid.NewGuid();
+            await _context.Set<Reservation>().AddAsync(new Reservation
+            {
+                Id = reservationId,
+                UserId = user.Id,
+                ShowId = show.Id,
+                Seats = seats
+                    .Distinct()
+                    .Select(s => new Seat { Id = Guid.NewGuid(), ReservationId = reservationId, Stoelnummer = s })
+                    .ToList()
+            });
+
+            foreach (var (voucher, voucherAmount) in vouchers.Where(v => v.amount > 0))
+            {
+                voucher.Redemptions.Add(new VoucherRedemption
+                {
+                    Id = Guid.NewGuid(),
+                    VoucherId = voucher.Id,
+                    Amount = voucherAmount,
+                    RedeemedAt = DateTime.UtcNow,
+                    ReservationId = reservationId
+                });
+                voucher.Balance = voucher.Kind == "value" ? voucher.Balance - voucherAmount : 0;
+            }
+
+            problem = await _DBPointsService.RedeemForOrderAsync(user, reservationId, freeTickets, show.Film.Name);
+            if (problem != null)
+                return (null, problem);
+            _DBPointsService.EarnForOrder(user, reservationId, breakdown.Total, show);
+
+            var orderId = Guid.NewGuid();
+            var order = new Order
+            {
+                Id = orderId,
+                ReservationId = reservationId,
+                UserId = user.Id,
+                Tickets = JsonSerializer.Serialize(tickets),
+                Breakdown = JsonSerializer.Serialize(breakdown),
+                Total = breakdown.Total,
+                PaidAt = DateTime.UtcNow,
+                Payments = breakdown.Total > 0
+                    ? new List<OrderPayment> { new OrderPayment { Id = Guid.NewGuid(), OrderId = orderId, PaymentId = paymentId!, Amount = breakdown.Total, PaidAt = DateTime.UtcNow } }
+                    : new List<OrderPayment>()
+            };
+            await _dbSet.AddAsync(order);
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+            return (order, null);
+        }
+
+        // The price of a booking's tickets for other seats or another show. The free tickets and
+        // vouchers it was paid with stay on it, they were spent when it was placed.
+        public async Task<PriceBreakdown> RepriceAsync(Order order, Show show, User user, List<string> seats)
+        {
+            var tickets = JsonSerializer.Deserialize<TicketCountsDTO>(order.Tickets)!;
+            var redeemedPoints = await _context.Set<PointsEntry>()
+                .Where(p => p.ReservationId == order.ReservationId && p.Kind == "redeemed")
+                .SumAsync(p => -p.Points);
+            var breakdown = await PriceTicketsAsync(show, user, seats, tickets, redeemedPoints / Pricing.FreeTicketPoints);
+
+            var redemptions = await _context.Set<VoucherRedemption>()
+                .AsNoTracking()
+                .Include(r => r.Voucher)
+                .Where(r => r.ReservationId == order.ReservationId)
+                .OrderBy(r => r.RedeemedAt)
+                .ToListAsync();
+            foreach (var redemption in redemptions)
+            {
+                breakdown = Pricing.AddDiscount(breakdown, $"Voucher {redemption.Voucher.Code}", redemption.Amount);
+            }
+            return breakdown;
+        }
+
+        // Records the new price of a booking once it has changed and the difference is settled
+        public async Task SavePriceAsync(Guid orderId, PriceBreakdown breakdown)
+        {
+            var json = JsonSerializer.Serialize(breakdown);
+            await _dbSet
+                .Where(o => o.Id == orderId)
+                .ExecuteUpdateAsync(o => o
+                    .SetProperty(x => x.Breakdown, json)
+                    .SetProperty(x => x.Total, breakdown.Total));
+        }
+
+        // An extra charge for an order, e.g. the difference when a booking was changed
+        public async Task AddPaymentAsync(Guid orderId, string paymentId, int amount)
+        {
+            await _context.Set<OrderPayment>().AddAsync(new OrderPayment
+            {
+                Id = Guid.NewGuid(),
+                OrderId = orderId,
+                PaymentId = paymentId,
+                Amount = amount,
+                PaidAt = DateTime.UtcNow
+            });
+            await _context.SaveChangesAsync();
+        }
+
+        // Records part of a payment the provider has given back, or returns why it can't be
+        public async Task<string?> RecordRefundAsync(Guid orderId, string paymentId, int amount)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var payment = await _context.Set<OrderPayment>()
+                .FirstOrDefaultAsync(p => p.OrderId == orderId && p.PaymentId == paymentId);
+            if (payment == null)
+                return $"No payment {paymentId} on this order.";
+            if (amount > payment.Amount - payment.Refunded)
+                return "Cannot refund more than was paid.";
+
+            payment.Refunded += amount;
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+            return null;
+        }
+    }
+}
@@ -0,0 +1,159 @@
+using BioscoopServer.models;
+using BioscoopServer.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    // The loyalty points ledger. Earning: PointsPerEuro for every whole euro paid, a bonus
+    // for a show on a weekday and for the first review of a film. Spending: Pricing.FreeTicketPoints
+    // buys one free ticket. Points expire PointsValidMonths after they were added; spending
+    // uses up the oldest points first.
+    public class DBPointsService : DBDefaultService<PointsEntry>
+    {
+        public const int PointsPerEuro = 1;
+        public const int WeekdayBonusPoints = 25;
+        public const int ReviewBonusPoints = 10;
+        public const int PointsValidMonths = 12;
+
+        public DBPointsService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(PointsEntry entity, out PointsEntry? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(p => p.Id == entity.Id);
+            return existing != null;
+        }
+
+        // Newest first, after writing off the points that have expired
+        public async Task<List<PointsEntry>> GetHistoryAsync(User user)
+        {
+            await ExpireAsync(user);
+            await _context.SaveChangesAsync();
+            return await _dbSet
+                .AsNoTracking()
+                .Where(p => p.UserId == user.Id)
+                .OrderByDescending(p => p.CreatedAt)
+                .ToListAsync();
+        }
+
+        public async Task<int> GetBalanceAsync(User user)
+        {
+            await ExpireAsync(user);
+            await _context.SaveChangesAsync();
+            return user.Points;
+        }
+
+        // Adds an 'expired' line for every batch of points that ran out before it was spent.
+        // Not saved, so it can be part of the caller's changes.
+        private async Task ExpireAsync(User user)
+        {
+            var entries = await _dbSet
+                .Where(p => p.UserId == user.Id)
+                .OrderBy(p => p.CreatedAt)
+                .ToListAsync();
+
+            var batches = new List<(PointsEntry entry, int left)>();
+            foreach (var entry in entries)
+            {
+                if (entry.Points > 0)
+                {
+                    batches.Add((entry, entry.Points));
+                    continue;
+                }
+                // oldest points go first
+                var toTake = -entry.Points;
+                for (var i = 0; i < batches.Count && toTake > 0; i++)
+                {
+                    var taken = Math.Min(batches[i].left, toTake);
+                    batches[i] = (batches[i].entry, batches[i].left - taken);
+                    toTake -= taken;
+                }
+            }
+
+            user.Points = entries.Sum(p => p.Points);
+            foreach (var (entry, left) in batches.Where(b => b.left > 0 && b.entry.ExpiresAt <= DateTime.UtcNow))
+            {
+                Add(user, -left, "expired", $"Expired: {entry.Description}", entry.ExpiresAt!.Value);
+            }
+        }
+
+        private void Add(User user, int points, string kind, string description, DateTime createdAt, Guid? reservationId = null, Guid? filmId = null)
+        {
+            _dbSet.Add(new PointsEntry
+            {
+                Id = Guid.NewGuid(),
+                UserId = user.Id,
+                Points = points,
+                Kind = kind,
+                Description = description,
+                CreatedAt = createdAt,
+                ExpiresAt = points > 0 ? createdAt.AddMonths(PointsValidMonths) : null,
+                ReservationId = reservationId,
+                FilmId = filmId
+            });
+            user.Points += points;
+        }
+
+        // Not saved, the order is placed in one transaction with them
+        public async Task<string?> RedeemForOrderAsync(User user, Guid reservationId, int freeTickets, string filmName)
+        {
+            if (freeTickets <= 0)
+                return null;
+
+            await ExpireAsync(user);
+            var points = freeTickets * Pricing.FreeTicketPoints;
+            if (points > user.Points)
+                return $"Not enough loyalty points for {freeTickets} free ticket(s).";
+
+            Add(user, -points, "redeemed", $"{freeTickets} free ticket(s) for {filmName}", DateTime.UtcNow, reservationId);
+            return null;
+        }
+
+        // Points for a paid booking: the amount paid plus the weekday bonus. Not saved.
+        public void EarnForOrder(User user, Guid reservationId, int paid, Show show)
+        {
+            var points = paid / 100 * PointsPerEuro;
+            if (points > 0)
+                Add(user, points, "earned", $"Booking for {show.Film.Name}", DateTime.UtcNow, reservationId);
+
+            if (show.Begintijd.DayOfWeek is >= DayOfWeek.Monday and <= DayOfWeek.Friday)
+                Add(user, WeekdayBonusPoints, "bonus", $"Weekday visit to {show.Film.Name}", DateTime.UtcNow, reservationId);
+        }
+
+        // The first review of a film earns a bonus, later ones don't
+        public async Task AwardReviewBonusAsync(User user, Film film)
+        {
+            var alreadyAwarded = await _dbSet.AnyAsync(p => p.UserId == user.Id && p.FilmId == film.Id && p.Kind == "bonus");
+            if (alreadyAwarded)
+                return;
+
+            await ExpireAsync(user);
+            Add(user, ReviewBonusPoints, "bonus", $"Review of {film.Name}", DateTime.UtcNow, filmId: film.Id);
+            await _context.SaveChangesAsync();
+        }
+
+        // A cancelled booking takes back the points it earned and gives back the points spent on it
+        public async Task ReverseForReservationAsync(Guid reservationId)
+        {
+            var entries = await _dbSet
+                .AsNoTracking()
+                .Where(p => p.ReservationId == reservationId)
+                .ToListAsync();
+            if (entries.Count == 0 || entries.Any(p => p.Kind == "reversed" || p.Kind == "restored"))
+                return;
+
+            var user = await _context.Set<User>().FindAsync(entries[0].UserId);
+            if (user == null)
+                return;
+
+            await ExpireAsync(user);
+            foreach (var entry in entries)
+            {
+                if (entry.Kind == "earned" || entry.Kind == "bonus")
+                    Add(user, -entry.Points, "reversed", $"Cancelled: {entry.Description}", DateTime.UtcNow, reservationId);
+                else if (entry.Kind == "redeemed")
+                    Add(user, -entry.Points, "restored", $"Cancelled: {entry.Description}", DateTime.UtcNow, reservationId);
+            }
+            await _context.SaveChangesAsync();
+        }
+    }
+}
@@ -0,0 +1,15 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+namespace BioscoopServer.DBServices
+{
+    public class DBPromotionService : DBDefaultService<Promotion>
+    {
+        public DBPromotionService(CinemaContext context) : base(context) { }
+        public override bool Exists(Promotion entity, out Promotion? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(p => p.Id == entity.Id);
+            return existing != null;
+        }
+
+    }
+}
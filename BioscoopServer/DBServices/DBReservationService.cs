@@ -0,0 +1,78 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBReservationService : DBDefaultService<Reservation>
+    {
+        public DBReservationService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(Reservation entity, out Reservation? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(r => r.Id == entity.Id);
+            return existing != null;
+        }
+
+        // All seat numbers that are already taken for a show
+        public async Task<List<string>> GetReservedSeatsAsync(Guid showId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Where(r => r.ShowId == showId)
+                .SelectMany(r => r.Seats)
+                .Select(s => s.Stoelnummer)
+                .ToListAsync();
+        }
+
+        public async Task<Reservation?> GetWithDetailsAsync(Guid reservationId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Include(r => r.Show)
+                .ThenInclude(s => s.Film)
+                .Include(r => r.Show)
+                .ThenInclude(s => s.Zaal)
+                .Include(r => r.Seats)
+                .FirstOrDefaultAsync(r => r.Id == reservationId);
+        }
+
+        // Replaces all seats of a reservation in one save
+        public async Task<bool> ChangeSeatsAsync(Guid reservationId, List<string> seatNumbers)
+        {
+            var reservation = await _dbSet
+                .Include(r => r.Seats)
+                .FirstOrDefaultAsync(r => r.Id == reservationId);
+
+            if (reservation == null)
+                return false;
+
+            _context.Set<Seat>().RemoveRange(reservation.Seats);
+            await _context.Set<Seat>().AddRangeAsync(seatNumbers
+                .Distinct()
+                .Select(s => new Seat { Id = Guid.NewGuid(), ReservationId = reservationId, Stoelnummer = s }));
+            await _context.SaveChangesAsync();
+
+            return true;
+        }
+
+        // Moves a reservation to another show with new seats; the old seats are released in the same save
+        public async Task<bool> MoveAsync(Guid reservationId, Guid showId, List<string> seatNumbers)
+        {
+            var reservation = await _dbSet
+                .Include(r => r.Seats)
+                .FirstOrDefaultAsync(r => r.Id == reservationId);
+
+            if (reservation == null)
+                return false;
+
+            reservation.ShowId = showId;
+            _context.Set<Seat>().RemoveRange(reservation.Seats);
+            await _context.Set<Seat>().AddRangeAsync(seatNumbers
+                .Distinct()
+                .Select(s => new Seat { Id = Guid.NewGuid(), ReservationId = reservationId, Stoelnummer = s }));
+            await _context.SaveChangesAsync();
+
+            return true;
+        }
+    }
+}
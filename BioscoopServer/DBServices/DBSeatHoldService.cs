@@ -0,0 +1,78 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBSeatHoldService : DBDefaultService<SeatHold>
+    {
+        public const int HoldMinutes = 10;
+
+        public DBSeatHoldService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(SeatHold entity, out SeatHold? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(h => h.Id == entity.Id);
+            return existing != null;
+        }
+
+        // Holds that haven't expired yet, expired ones are ignored until they get cleaned up
+        public async Task<List<SeatHold>> GetActiveAsync(Guid showId)
+        {
+            var now = DateTime.UtcNow;
+            return await _dbSet
+                .AsNoTracking()
+                .Where(h => h.ShowId == showId && h.ExpiresAt > now)
+                .ToListAsync();
+        }
+
+        // Seats other sessions are holding for a show
+        public async Task<List<string>> GetHeldByOthersAsync(Guid showId, string? sessionId)
+        {
+            return (await GetActiveAsync(showId))
+                .Where(h => h.SessionId != sessionId)
+                .Select(h => h.Stoelnummer)
+                .ToList();
+        }
+
+        // Holds exactly `seatNumbers` for the session, the countdown is not reset by picking
+        // more seats. Returns the seats that were already taken; nothing is changed then.
+        public async Task<(List<SeatHold> hold, List<string> taken)> HoldAsync(Guid showId, string sessionId, List<string> seatNumbers)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var now = DateTime.UtcNow;
+
+            _dbSet.RemoveRange(await _dbSet.Where(h => h.ShowId == showId && h.ExpiresAt <= now).ToListAsync());
+
+            var active = await _dbSet.Where(h => h.ShowId == showId && h.ExpiresAt > now).ToListAsync();
+            var reserved = await _context.Set<Reservation>()
+                .Where(r => r.ShowId == showId)
+                .SelectMany(r => r.Seats)
+                .Select(s => s.Stoelnummer)
+                .ToListAsync();
+            var heldByOthers = active.Where(h => h.SessionId != sessionId).Select(h => h.Stoelnummer);
+            var taken = seatNumbers.Where(s => reserved.Contains(s) || heldByOthers.Contains(s)).Distinct().ToList();
+            if (taken.Count > 0)
+                return (new List<SeatHold>(), taken);
+
+            var own = active.Where(h => h.SessionId == sessionId).ToList();
+            var expiresAt = own.Count > 0 ? own.Min(h => h.ExpiresAt) : now.AddMinutes(HoldMinutes);
+            _dbSet.RemoveRange(own);
+            var hold = seatNumbers
+                .Distinct()
+                .Select(s => new SeatHold { Id = Guid.NewGuid(), ShowId = showId, SessionId = sessionId, Stoelnummer = s, ExpiresAt = expiresAt })
+                .ToList();
+            await _dbSet.AddRangeAsync(hold);
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+            return (hold, new List<string>());
+        }
+
+        public async Task ReleaseAsync(Guid showId, string sessionId)
+        {
+            await _dbSet
+                .Where(h => h.ShowId == showId && h.SessionId == sessionId)
+                .ExecuteDeleteAsync();
+        }
+    }
+}
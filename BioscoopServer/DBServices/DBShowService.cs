@@ -0,0 +1,180 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBShowService : DBDefaultService<Show>
+    {
+        // The app's cleaning time for rooms that don't have their own
+        public const int DefaultCleaningMinutes = 15;
+        // The app's ads and trailers block, for shows saved without one
+        public const int DefaultPreShowMinutes = 20;
+
+        public DBShowService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(Show entity, out Show? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(s => s.Id == entity.Id);
+            return existing != null;
+        }
+
+        // The base class gives back the row as it was before an update
+        public override async Task<Show?> AddOrUpdateAsync(Show entity)
+        {
+            await base.AddOrUpdateAsync(entity);
+            return entity;
+        }
+
+        // Adds or updates a show unless it clashes with another show in its room
+        public async Task<(Show? show, string? conflict)> ScheduleAsync(Show show)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var others = await GetByRoomAsync(show.RoomId);
+            var conflict = FindConflict(show, others, await CleaningMinutesAsync(show.RoomId));
+            if (conflict != null)
+                return (null, conflict);
+
+            var saved = await AddOrUpdateAsync(show);
+            await transaction.CommitAsync();
+            return (saved, null);
+        }
+
+        public async Task<Show?> GetWithDetailsAsync(Guid showId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Include(s => s.Film)
+                .Include(s => s.Zaal)
+                .FirstOrDefaultAsync(s => s.Id == showId);
+        }
+
+        public async Task<int> CountReservationsAsync(Guid showId)
+        {
+            return await _context.Set<Reservation>().CountAsync(r => r.ShowId == showId);
+        }
+
+        public async Task<List<Show>> GetByFilmAsync(Guid filmId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Where(s => s.FilmId == filmId)
+                .OrderBy(s => s.Begintijd)
+                .ToListAsync();
+        }
+
+        public async Task<List<Show>> GetByRoomAsync(Guid roomId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Where(s => s.RoomId == roomId)
+                .OrderBy(s => s.Begintijd)
+                .ToListAsync();
+        }
+
+        public async Task<List<Show>> GetBySeriesAsync(Guid seriesId)
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Where(s => s.SeriesId == seriesId)
+                .OrderBy(s => s.Begintijd)
+                .ToListAsync();
+        }
+
+        // Saves all occurrences of a series in one go: the given shows are added or updated,
+        // upcoming shows of the series that are not given are cancelled. Shows that already
+        // started are left alone. Nothing is saved when one of the shows clashes with another
+        // show in its room, or when a show that would be cancelled has reservations; the
+        // reason is returned instead.
+        public async Task<(List<Show>? shows, string? conflict)> SaveSeriesAsync(Guid seriesId, List<Show> shows)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            // show times are local, like DateTime.Now
+            var now = DateTime.Now;
+            var keep = shows.Select(s => s.Id).Where(id => id != Guid.Empty).ToHashSet();
+            var cancelled = await _dbSet
+                .Where(s => s.SeriesId == seriesId && s.Begintijd >= now && !keep.Contains(s.Id))
+                .ToListAsync();
+
+            // reservations are paid for, they are cancelled (and refunded) one by one first
+            var cancelledIds = cancelled.Select(s => s.Id).ToList();
+            var booked = await _context.Set<Reservation>()
+                .Where(r => cancelledIds.Contains(r.ShowId))
+                .Select(r => r.ShowId)
+                .Distinct()
+                .ToListAsync();
+            if (booked.Count > 0)
+            {
+                var times = cancelled.Where(s => booked.Contains(s.Id)).OrderBy(s => s.Begintijd).Select(s => $"{s.Begintijd:dd/MM/yyyy HH:mm}");
+                return (null, $"These shows have reservations and can't be cancelled: {string.Join(", ", times)}. Keep them in the series or cancel their reservations first.");
+            }
+
+            // the shows being saved are checked against each other and what stays in their rooms
+            var replaced = cancelled.Select(s => s.Id).Concat(keep).ToHashSet();
+            foreach (var show in shows)
+            {
+                var others = (await GetByRoomAsync(show.RoomId))
+                    .Where(s => !replaced.Contains(s.Id))
+                    .Concat(shows);
+                var conflict = FindConflict(show, others, await CleaningMinutesAsync(show.RoomId));
+                if (conflict != null)
+                    return (null, $"{show.Begintijd:dd/MM/yyyy HH:mm}: {conflict}");
+            }
+
+            _dbSet.RemoveRange(cancelled);
+
+            foreach (var show in shows)
+            {
+                show.SeriesId = seriesId;
+                if (show.Id != Guid.Empty && await _dbSet.AsNoTracking().AnyAsync(s => s.Id == show.Id))
+                    _dbSet.Update(show);
+                else
+                    await _dbSet.AddAsync(show);
+            }
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+            return (shows, null);
+        }
+
+        // Returns why the series can't be cancelled, or null when it was
+        public async Task<string?> CancelSeriesAsync(Guid seriesId)
+        {
+            var (_, conflict) = await SaveSeriesAsync(seriesId, new List<Show>());
+            return conflict;
+        }
+
+        private async Task<int> CleaningMinutesAsync(Guid roomId)
+        {
+            var cleaningMinutes = await _context.Set<Room>()
+                .Where(r => r.Id == roomId)
+                .Select(r => r.CleaningMinutes)
+                .FirstOrDefaultAsync();
+            return cleaningMinutes ?? DefaultCleaningMinutes;
+        }
+
+        // Why `show` can't be planned next to `others`, or null when it can (see findConflicts in the app)
+        private static string? FindConflict(Show show, IEnumerable<Show> others, int cleaningMinutes)
+        {
+            var start = show.Begintijd!.Value;
+            var end = show.Eindtijd!.Value;
+            var buffer = TimeSpan.FromMinutes(cleaningMinutes);
+
+            var sameRoom = others
+                .Where(o => o.RoomId == show.RoomId && !ReferenceEquals(o, show) && (show.Id == Guid.Empty || o.Id != show.Id))
+                .OrderBy(o => o.Begintijd);
+            foreach (var other in sameRoom)
+            {
+                var otherStart = other.Begintijd!.Value;
+                var otherEnd = other.Eindtijd!.Value;
+                if (start < otherEnd && otherStart < end)
+                    return $"Overlaps with the show at {otherStart:dd/MM/yyyy HH:mm}";
+                if (start < otherEnd + buffer && otherStart < end + buffer)
+                {
+                    var gap = (int)Math.Round(Math.Max((otherStart - end).TotalMinutes, (start - otherEnd).TotalMinutes));
+                    return $"Only {gap} min for cleaning ({cleaningMinutes} needed) next to the show at {otherStart:dd/MM/yyyy HH:mm}";
+                }
+            }
+            return null;
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using System.Security.Cryptography;
 using BioscoopServer.models;
 using Microsoft.EntityFrameworkCore;
 
@@ -5,6 +6,9 @@ namespace BioscoopServer.DBServices
 {
     public class DBUserService : DBDefaultService<User>
     {
+        private const string VerificationCodeDigits = "0123456789";
+        private const int VerificationCodeLength = 6;
+
         public DBUserService(CinemaContext context) : base(context) { }
 
         public override bool Exists(User entity, out User? existing)
@@ -13,6 +17,28 @@ namespace BioscoopServer.DBServices
             return existing != null;
         }
 
+        // A new code for the user's email address, the address is unverified until it is entered
+        public async Task<string> StartEmailVerificationAsync(User user)
+        {
+            var code = RandomNumberGenerator.GetString(VerificationCodeDigits, VerificationCodeLength);
+            user.EmailVerified = false;
+            user.EmailVerificationCode = code;
+            await _context.SaveChangesAsync();
+            return code;
+        }
+
+        // Marks the address verified when `code` is the one that was sent
+        public async Task<bool> VerifyEmailAsync(User user, string code)
+        {
+            if (user.EmailVerificationCode == null || user.EmailVerificationCode != code.Trim())
+                return false;
+
+            user.EmailVerified = true;
+            user.EmailVerificationCode = null;
+            await _context.SaveChangesAsync();
+            return true;
+        }
+
         // NEW: Get user by email
         public async Task<User?> GetByEmailAsync(string email)
         {
@@ -0,0 +1,103 @@
+using System.Security.Cryptography;
+using System.Text.RegularExpressions;
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBVoucherService : DBDefaultService<Voucher>
+    {
+        // no 0/O or 1/I, so codes can be read out over the phone
+        private const string CodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+        private const int CodeLength = 12;
+
+        public DBVoucherService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(Voucher entity, out Voucher? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(v => v.Code == entity.Code);
+            return existing != null;
+        }
+
+        // Same as the app: upper case, only letters and digits, a dash every 4 characters
+        public static string NormalizeCode(string code)
+        {
+            var chars = Regex.Replace(code.Trim().ToUpperInvariant(), "[^A-Z0-9]", "");
+            return Regex.Replace(chars, "(.{4})(?=.)", "$1-");
+        }
+
+        public async Task<List<Voucher>> GetAllWithRedemptionsAsync()
+        {
+            return await _dbSet
+                .AsNoTracking()
+                .Include(v => v.Redemptions)
+                .ToListAsync();
+        }
+
+        public async Task<Voucher?> GetByCodeAsync(string code)
+        {
+            var normalized = NormalizeCode(code);
+            return await _dbSet
+                .AsNoTracking()
+                .Include(v => v.Redemptions)
+                .FirstOrDefaultAsync(v => v.Code == normalized);
+        }
+
+        // Gives back the vouchers spent on a reservation that is cancelled: the balance of a
+        // value voucher and the use of a ticket voucher. Returns the codes given back.
+        public async Task<List<string>> RestoreForReservationAsync(Guid reservationId)
+        {
+            var redemptions = await _context.Set<VoucherRedemption>()
+                .Include(r => r.Voucher)
+                .Where(r => r.ReservationId == reservationId)
+                .ToListAsync();
+
+            foreach (var redemption in redemptions)
+            {
+                if (redemption.Voucher.Kind == "value")
+                    redemption.Voucher.Balance += redemption.Amount;
+                _context.Set<VoucherRedemption>().Remove(redemption);
+            }
+
+            await _context.SaveChangesAsync();
+            return redemptions.Select(r => r.Voucher.Code).Distinct().ToList();
+        }
+
+        public async Task<List<Voucher>> GenerateAsync(string kind, int value, int usageLimit, DateTime expiresAt, string description, int count)
+        {
+            var taken = (await _dbSet.Select(v => v.Code).ToListAsync()).ToHashSet();
+            var created = new List<Voucher>();
+            while (created.Count < count)
+            {
+                var code = NormalizeCode(RandomNumberGenerator.GetString(CodeAlphabet, CodeLength));
+                if (!taken.Add(code)) continue;
+                created.Add(new Voucher
+                {
+                    Id = Guid.NewGuid(),
+                    Code = code,
+                    Kind = kind,
+                    Value = kind == "value" ? value : 0,
+                    Balance = kind == "value" ? value : 0,
+                    UsageLimit = usageLimit,
+                    ExpiresAt = expiresAt,
+                    Description = description,
+                    CreatedAt = DateTime.UtcNow
+                });
+            }
+
+            await _dbSet.AddRangeAsync(created);
+            await _context.SaveChangesAsync();
+            return created;
+        }
+
+        // Why a voucher can't be used right now, or null when it can
+        public static string? Problem(Voucher? voucher)
+        {
+            if (voucher == null) return "This code does not exist.";
+            if (voucher.ExpiresAt <= DateTime.UtcNow) return "This voucher has expired.";
+            if (voucher.Redemptions.Count >= voucher.UsageLimit) return "This voucher has been used up.";
+            if (voucher.Kind == "value" && voucher.Balance <= 0) return "There is no balance left on this voucher.";
+            return null;
+        }
+    }
+}
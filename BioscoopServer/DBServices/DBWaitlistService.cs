@@ -0,0 +1,149 @@
+using BioscoopServer.models;
+using Microsoft.EntityFrameworkCore;
+
+namespace BioscoopServer.DBServices
+{
+    public class DBWaitlistService : DBDefaultService<WaitlistEntry>
+    {
+        public const int ClaimMinutes = 15;
+
+        public DBWaitlistService(CinemaContext context) : base(context) { }
+
+        public override bool Exists(WaitlistEntry entity, out WaitlistEntry? existing)
+        {
+            existing = _dbSet.AsNoTracking().FirstOrDefault(e => e.ShowId == entity.ShowId && e.UserId == entity.UserId);
+            return existing != null;
+        }
+
+        // An offer that ran out is gone, the next one in line gets a chance
+        private IQueryable<WaitlistEntry> Active()
+        {
+            var now = DateTime.UtcNow;
+            return _dbSet.AsNoTracking().Where(e => e.OfferExpiresAt == null || e.OfferExpiresAt > now);
+        }
+
+        public async Task<List<WaitlistEntry>> GetAllActiveAsync()
+        {
+            return await Active()
+                .OrderBy(e => e.JoinedAt)
+                .ToListAsync();
+        }
+
+        // In order of joining
+        public async Task<List<WaitlistEntry>> GetByShowAsync(Guid showId)
+        {
+            return await Active()
+                .Where(e => e.ShowId == showId)
+                .OrderBy(e => e.JoinedAt)
+                .ToListAsync();
+        }
+
+        // Everything a user is waiting for, across all shows
+        public async Task<List<WaitlistEntry>> GetByUserAsync(Guid userId)
+        {
+            return await Active()
+                .Where(e => e.UserId == userId)
+                .OrderBy(e => e.JoinedAt)
+                .ToListAsync();
+        }
+
+        public async Task<WaitlistEntry?> JoinAsync(Guid showId, Guid userId, int seats)
+        {
+            var entry = new WaitlistEntry
+            {
+                Id = Guid.NewGuid(),
+                ShowId = showId,
+                UserId = userId,
+                Seats = seats,
+                JoinedAt = DateTime.UtcNow
+            };
+
+            // an entry whose offer ran out is still in the table until it is replaced
+            if (Exists(entry, out var existing))
+            {
+                if (existing!.OfferExpiresAt == null || existing.OfferExpiresAt > DateTime.UtcNow)
+                    return null;
+                await _dbSet.Where(e => e.Id == existing.Id).ExecuteDeleteAsync();
+            }
+
+            await _dbSet.AddAsync(entry);
+            await _context.SaveChangesAsync();
+            return entry;
+        }
+
+        // Leaving the waitlist also declines an open offer
+        public async Task LeaveAsync(Guid showId, Guid userId)
+        {
+            await _dbSet
+                .Where(e => e.ShowId == showId && e.UserId == userId)
+                .ExecuteDeleteAsync();
+        }
+
+        // Seats offered to other users, which are not for sale right now
+        public async Task<int> GetSeatsOfferedToOthersAsync(Guid showId, Guid? userId)
+        {
+            var now = DateTime.UtcNow;
+            return await _dbSet
+                .Where(e => e.ShowId == showId && e.OfferExpiresAt > now && e.UserId != userId)
+                .SumAsync(e => e.Seats);
+        }
+
+        // Seats of a show that nobody reserved or holds (other than `sessionId`)
+        public async Task<int> CountUnsoldSeatsAsync(Show show, string? sessionId = null)
+        {
+            var room = await _context.Set<Room>().AsNoTracking().FirstAsync(r => r.Id == show.RoomId);
+            var reserved = await _context.Set<Seat>().CountAsync(s => s.Reservation.ShowId == show.Id);
+            var now = DateTime.UtcNow;
+            var held = await _context.Set<SeatHold>()
+                .CountAsync(h => h.ShowId == show.Id && h.ExpiresAt > now && h.SessionId != sessionId);
+            return CountSeats(room) - reserved - held;
+        }
+
+        // Offers the unsold seats of a show to the people in line. Someone who wants more
+        // seats than are left is skipped, the next person may want fewer.
+        public async Task OfferFreedSeatsAsync(Show show)
+        {
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var now = DateTime.UtcNow;
+
+            var entries = await _dbSet
+                .Where(e => e.ShowId == show.Id)
+                .OrderBy(e => e.JoinedAt)
+                .ToListAsync();
+            _dbSet.RemoveRange(entries.Where(e => e.OfferExpiresAt <= now));
+
+            var waiting = entries.Where(e => e.OfferExpiresAt == null).ToList();
+            var available = await CountUnsoldSeatsAsync(show)
+                - entries.Where(e => e.OfferExpiresAt > now).Sum(e => e.Seats);
+
+            var expiresAt = now.AddMinutes(ClaimMinutes);
+            foreach (var entry in waiting)
+            {
+                if (available <= 0) break;
+                if (entry.Seats > available) continue;
+                entry.OfferExpiresAt = expiresAt;
+                available -= entry.Seats;
+            }
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+        }
+
+        // Same rules as the app's seat map: rooms without a saved layout (or cells outside
+        // it) are plain seats, aisles (A) and gaps (_) can't be booked
+        private static int CountSeats(Room room)
+        {
+            var lines = room.Layout?.Split('\n') ?? Array.Empty<string>();
+            var count = 0;
+            for (var row = 0; row < Math.Max(room.Rijen ?? 0, 0); row++)
+            {
+                for (var col = 0; col < Math.Max(room.StoelenPerRij ?? 0, 0); col++)
+                {
+                    var code = row < lines.Length && col < lines[row].Length ? lines[row][col] : 'S';
+                    if (code != 'A' && code != '_') count++;
+                }
+            }
+            return count;
+        }
+    }
+}
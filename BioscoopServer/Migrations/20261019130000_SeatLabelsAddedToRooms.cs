@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BioscoopServer.Migrations
+{
+    /// <inheritdoc />
+    public partial class SeatLabelsAddedToRooms : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "FirstRowAtScreen",
+                table: "Zalen",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "NumberFromLeft",
+                table: "Zalen",
+                type: "INTEGER",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "FirstRowAtScreen",
+                table: "Zalen");
+
+            migrationBuilder.DropColumn(
+                name: "NumberFromLeft",
+                table: "Zalen");
+        }
+    }
+}
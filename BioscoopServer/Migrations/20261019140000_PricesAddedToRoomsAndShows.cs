@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BioscoopServer.Migrations
+{
+    /// <inheritdoc />
+    public partial class PricesAddedToRoomsAndShows : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<double>(
+                name: "BasePrice",
+                table: "Zalen",
+                type: "REAL",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "Price",
+                table: "Shows",
+                type: "REAL",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "BasePrice",
+                table: "Zalen");
+
+            migrationBuilder.DropColumn(
+                name: "Price",
+                table: "Shows");
+        }
+    }
+}
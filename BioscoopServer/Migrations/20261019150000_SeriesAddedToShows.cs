@@ -0,0 +1,38 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BioscoopServer.Migrations
+{
+    /// <inheritdoc />
+    public partial class SeriesAddedToShows : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "SeriesId",
+                table: "Shows",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Shows_SeriesId",
+                table: "Shows",
+                column: "SeriesId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_Shows_SeriesId",
+                table: "Shows");
+
+            migrationBuilder.DropColumn(
+                name: "SeriesId",
+                table: "Shows");
+        }
+    }
+}
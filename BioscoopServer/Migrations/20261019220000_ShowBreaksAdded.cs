@@ -0,0 +1,40 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BioscoopServer.Migrations
+{
+    /// <inheritdoc />
+    public partial class ShowBreaksAdded : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "IntermissionMinutes",
+                table: "Shows",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "PreShowMinutes",
+                table: "Shows",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 20);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "IntermissionMinutes",
+                table: "Shows");
+
+            migrationBuilder.DropColumn(
+                name: "PreShowMinutes",
+                table: "Shows");
+        }
+    }
+}
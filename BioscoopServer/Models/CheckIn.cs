@@ -0,0 +1,15 @@
+namespace BioscoopServer.models
+{
+    // A reservation that has been let in at the door. There is at most one per
+    // reservation, so a ticket scanned at a second entrance shows up as a duplicate.
+    public class CheckIn
+    {
+        public Guid Id { get; set; }
+        public Guid ReservationId { get; set; }
+        public Guid ShowId { get; set; }
+        // seat numbers, comma separated
+        public string Seats { get; set; } = null!;
+        // UTC
+        public DateTime CheckedInAt { get; set; }
+    }
+}
@@ -0,0 +1,17 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class CheckInConfig : IEntityTypeConfiguration<CheckIn>
+{
+    public void Configure(EntityTypeBuilder<CheckIn> builder)
+    {
+        builder.Property(c => c.Seats)
+            .IsRequired();
+
+        builder.HasIndex(c => c.ReservationId)
+            .IsUnique();
+
+        builder.HasIndex(c => c.ShowId);
+    }
+}
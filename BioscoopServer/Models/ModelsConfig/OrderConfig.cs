@@ -0,0 +1,24 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class OrderConfig : IEntityTypeConfiguration<Order>
+{
+    public void Configure(EntityTypeBuilder<Order> builder)
+    {
+        builder.Property(o => o.Tickets)
+            .IsRequired();
+
+        builder.Property(o => o.Breakdown)
+            .IsRequired();
+
+        // kept when the reservation is cancelled, the refund is worked out from it
+        builder.HasIndex(o => o.ReservationId)
+            .IsUnique();
+
+        builder.HasMany(o => o.Payments)
+            .WithOne(p => p.Order)
+            .HasForeignKey(p => p.OrderId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
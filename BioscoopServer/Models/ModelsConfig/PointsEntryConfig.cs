@@ -0,0 +1,19 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class PointsEntryConfig : IEntityTypeConfiguration<PointsEntry>
+{
+    public void Configure(EntityTypeBuilder<PointsEntry> builder)
+    {
+        builder.Property(p => p.Kind)
+            .IsRequired();
+
+        builder.Property(p => p.Description)
+            .IsRequired();
+
+        builder.HasIndex(p => p.UserId);
+
+        builder.HasIndex(p => p.ReservationId);
+    }
+}
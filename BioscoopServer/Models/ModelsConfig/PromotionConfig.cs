@@ -0,0 +1,18 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class PromotionConfig : IEntityTypeConfiguration<Promotion>
+{
+    public void Configure(EntityTypeBuilder<Promotion> builder)
+    {
+        builder.Property(p => p.Name)
+            .IsRequired();
+
+        builder.Property(p => p.Conditions)
+            .IsRequired();
+
+        builder.Property(p => p.Effect)
+            .IsRequired();
+    }
+}
@@ -0,0 +1,19 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class SeatHoldConfig : IEntityTypeConfiguration<SeatHold>
+{
+    public void Configure(EntityTypeBuilder<SeatHold> builder)
+    {
+        builder.Property(h => h.SessionId)
+            .IsRequired();
+
+        builder.Property(h => h.Stoelnummer)
+            .IsRequired();
+
+        // a seat can only be held once per show
+        builder.HasIndex(h => new { h.ShowId, h.Stoelnummer })
+            .IsUnique();
+    }
+}
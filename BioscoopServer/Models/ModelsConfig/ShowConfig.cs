@@ -10,5 +10,7 @@ public class ShowConfig : IEntityTypeConfiguration<Show>
             .WithOne(r => r.Show)
             .HasForeignKey(r => r.ShowId)
             .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasIndex(s => s.SeriesId);
     }
 }
\ No newline at end of file
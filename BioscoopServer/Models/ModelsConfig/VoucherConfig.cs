@@ -0,0 +1,21 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class VoucherConfig : IEntityTypeConfiguration<Voucher>
+{
+    public void Configure(EntityTypeBuilder<Voucher> builder)
+    {
+        builder.Property(v => v.Code)
+            .IsRequired();
+
+        builder.Property(v => v.Kind)
+            .IsRequired();
+
+        builder.Property(v => v.Description)
+            .IsRequired();
+
+        builder.HasIndex(v => v.Code)
+            .IsUnique();
+    }
+}
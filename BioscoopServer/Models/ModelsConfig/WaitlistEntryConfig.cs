@@ -0,0 +1,15 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using BioscoopServer.models;
+
+public class WaitlistEntryConfig : IEntityTypeConfiguration<WaitlistEntry>
+{
+    public void Configure(EntityTypeBuilder<WaitlistEntry> builder)
+    {
+        // a user is in line once per show
+        builder.HasIndex(e => new { e.ShowId, e.UserId })
+            .IsUnique();
+
+        builder.HasIndex(e => e.UserId);
+    }
+}
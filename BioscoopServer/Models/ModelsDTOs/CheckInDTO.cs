@@ -0,0 +1,10 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class CheckInDTO
+    {
+        // the scanned ticket code
+        public string? Code { get; set; }
+        // the room the entrance is for
+        public string? RoomId { get; set; }
+    }
+}
@@ -0,0 +1,9 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class EmailVerificationDTO
+    {
+        public string? UserId { get; set; }
+        // left out when asking for a code
+        public string? Code { get; set; }
+    }
+}
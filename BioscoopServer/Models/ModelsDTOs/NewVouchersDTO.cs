@@ -0,0 +1,14 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    // A batch of vouchers to generate
+    public class NewVouchersDTO
+    {
+        public string? Kind { get; set; }
+        // cents, ignored for ticket vouchers
+        public int Value { get; set; }
+        public int UsageLimit { get; set; }
+        public DateTime ExpiresAt { get; set; }
+        public string? Description { get; set; }
+        public int Count { get; set; }
+    }
+}
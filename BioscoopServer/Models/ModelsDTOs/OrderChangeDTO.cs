@@ -0,0 +1,10 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    // A booking moved to other seats or another show of the same film
+    public class OrderChangeDTO
+    {
+        public string? ReservationId { get; set; }
+        public string? ShowId { get; set; }
+        public List<string> Seats { get; set; } = new List<string>();
+    }
+}
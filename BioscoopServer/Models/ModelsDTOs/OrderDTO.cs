@@ -0,0 +1,18 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class OrderDTO
+    {
+        public string? UserId { get; set; }
+        public string? ShowId { get; set; }
+        // the seat hold session the seats were picked in
+        public string? SessionId { get; set; }
+        public List<string> Seats { get; set; } = new List<string>();
+        public TicketCountsDTO Tickets { get; set; } = new TicketCountsDTO();
+        // tickets paid for with loyalty points
+        public int FreeTickets { get; set; }
+        public List<string> VoucherCodes { get; set; } = new List<string>();
+        // when placing the order: the payment and the amount it was for, in cents
+        public string? PaymentId { get; set; }
+        public int Amount { get; set; }
+    }
+}
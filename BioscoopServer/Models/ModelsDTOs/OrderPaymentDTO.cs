@@ -0,0 +1,10 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class OrderPaymentDTO
+    {
+        public string? ReservationId { get; set; }
+        public string? PaymentId { get; set; }
+        // cents
+        public int Amount { get; set; }
+    }
+}
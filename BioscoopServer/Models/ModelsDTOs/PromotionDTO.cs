@@ -0,0 +1,17 @@
+using System.Text.Json;
+
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class PromotionDTO
+    {
+        public string? Id { get; set; }
+        public string? Name { get; set; }
+        public string? Description { get; set; }
+        public bool Active { get; set; }
+        public DateTime? StartsAt { get; set; }
+        public DateTime? EndsAt { get; set; }
+        // the app's PromotionConditions and PromotionEffect
+        public JsonElement Conditions { get; set; }
+        public JsonElement Effect { get; set; }
+    }
+}
@@ -0,0 +1,12 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class ReservationDTO
+    {
+        public string? Id { get; set; }
+        public string? UserId { get; set; }
+        public string? ShowId { get; set; }
+        // the seat hold session the seats were picked in
+        public string? SessionId { get; set; }
+        public List<string> Seats { get; set; } = new List<string>();
+    }
+}
@@ -7,5 +7,10 @@ namespace BioscoopServer.Models.ModelsDTOs
         public string? Naam { get; set; }
         public int? Rijen { get; set; }
         public int? StoelenPerRij { get; set; }
+        public string? Layout { get; set; }
+        public bool? FirstRowAtScreen { get; set; }
+        public bool? NumberFromLeft { get; set; }
+        public double? BasePrice { get; set; }
+        public int? CleaningMinutes { get; set; }
     }
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class SeatHoldDTO
+    {
+        public string? ShowId { get; set; }
+        public string? SessionId { get; set; }
+        public List<string> Seats { get; set; } = new List<string>();
+    }
+}
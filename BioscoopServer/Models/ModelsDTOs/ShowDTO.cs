@@ -0,0 +1,15 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class ShowDTO
+    {
+        public string? Id { get; set; }
+        public string? FilmId { get; set; }
+        public string? RoomId { get; set; }
+        public DateTime? Begintijd { get; set; }
+        public DateTime? Eindtijd { get; set; }
+        public double? Price { get; set; }
+        public string? SeriesId { get; set; }
+        public int? PreShowMinutes { get; set; }
+        public int? IntermissionMinutes { get; set; }
+    }
+}
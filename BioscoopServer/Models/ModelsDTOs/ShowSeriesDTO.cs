@@ -0,0 +1,9 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class ShowSeriesDTO
+    {
+        // Left out when a new series is saved
+        public string? SeriesId { get; set; }
+        public List<ShowDTO> Shows { get; set; } = new List<ShowDTO>();
+    }
+}
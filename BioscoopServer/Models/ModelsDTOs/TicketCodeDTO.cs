@@ -0,0 +1,7 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class TicketCodeDTO
+    {
+        public string? Code { get; set; }
+    }
+}
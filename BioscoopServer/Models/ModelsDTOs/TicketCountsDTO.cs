@@ -0,0 +1,11 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    // The app's TicketCounts: how many tickets of each type
+    public class TicketCountsDTO
+    {
+        public int Adult { get; set; }
+        public int Child { get; set; }
+        public int Senior { get; set; }
+        public int Student { get; set; }
+    }
+}
@@ -7,5 +7,6 @@ namespace BioscoopServer.Models.ModelsDTOs
         public string? Password { get; set; }
         public string? FirstName { get; set; }
         public string? LastName { get; set; }
+        public bool EmailVerified { get; set; }
     }
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+namespace BioscoopServer.Models.ModelsDTOs
+{
+    public class WaitlistEntryDTO
+    {
+        public string? ShowId { get; set; }
+        public string? UserId { get; set; }
+        public int Seats { get; set; }
+    }
+}
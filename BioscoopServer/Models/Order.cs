@@ -0,0 +1,19 @@
+namespace BioscoopServer.models
+{
+    // What was paid for a reservation, priced by the server when it was placed
+    public class Order
+    {
+        public Guid Id { get; set; }
+        public Guid ReservationId { get; set; }
+        public Guid UserId { get; set; }
+        // the ticket types and the price lines, as the app's JSON
+        public string Tickets { get; set; } = null!;
+        public string Breakdown { get; set; } = null!;
+        // cents
+        public int Total { get; set; }
+        // UTC
+        public DateTime PaidAt { get; set; }
+
+        public List<OrderPayment> Payments { get; set; } = new List<OrderPayment>();
+    }
+}
@@ -0,0 +1,20 @@
+namespace BioscoopServer.models
+{
+    // One charge on the customer's card. The first one pays for the order,
+    // changing a booking to a more expensive one adds another.
+    public class OrderPayment
+    {
+        public Guid Id { get; set; }
+        public Guid OrderId { get; set; }
+        // the payment provider's id
+        public string PaymentId { get; set; } = null!;
+        // cents
+        public int Amount { get; set; }
+        // cents of this payment given back so far
+        public int Refunded { get; set; }
+        // UTC
+        public DateTime PaidAt { get; set; }
+
+        public Order Order { get; set; } = null!;
+    }
+}
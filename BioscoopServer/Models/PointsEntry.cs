@@ -0,0 +1,22 @@
+namespace BioscoopServer.models
+{
+    // One line of a user's loyalty points ledger, User.Points is the sum of them
+    public class PointsEntry
+    {
+        public Guid Id { get; set; }
+        public Guid UserId { get; set; }
+        // negative when points are taken off
+        public int Points { get; set; }
+        // earned, bonus, redeemed, reversed, restored or expired
+        public string Kind { get; set; } = null!;
+        public string Description { get; set; } = null!;
+        // UTC
+        public DateTime CreatedAt { get; set; }
+        // only for points that were added
+        public DateTime? ExpiresAt { get; set; }
+        // kept when the reservation is cancelled, the points are reversed from it
+        public Guid? ReservationId { get; set; }
+        // for review bonuses, one per film
+        public Guid? FilmId { get; set; }
+    }
+}
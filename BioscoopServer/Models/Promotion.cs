@@ -0,0 +1,18 @@
+namespace BioscoopServer.models
+{
+    // A rule-based promotion marketing has set up. Conditions and effect are kept as
+    // the app's JSON, orders are priced with them in Services/PromotionRules.
+    public class Promotion
+    {
+        public Guid Id { get; set; }
+        public string Name { get; set; } = null!;
+        // shown to the customer next to the discount
+        public string? Description { get; set; }
+        public bool Active { get; set; }
+        // UTC, open-ended when left out
+        public DateTime? StartsAt { get; set; }
+        public DateTime? EndsAt { get; set; }
+        public string Conditions { get; set; } = null!;
+        public string Effect { get; set; } = null!;
+    }
+}
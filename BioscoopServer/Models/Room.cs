@@ -6,6 +6,15 @@ namespace BioscoopServer.models
         public string? Naam { get; set; }
         public int? Rijen { get; set; }
         public int? StoelenPerRij { get; set; }
+        // Seat map: one line per row, one character per cell (S, A, _, W, C, P, L)
+        public string? Layout { get; set; }
+        // Seat labels: row A nearest the screen (default) and seat 1 on the left (default)
+        public bool? FirstRowAtScreen { get; set; }
+        public bool? NumberFromLeft { get; set; }
+        // Ticket price in euros for shows in this room (a show can override it)
+        public double? BasePrice { get; set; }
+        // Minutes needed to clean the room between shows (the app's default when left out)
+        public int? CleaningMinutes { get; set; }
 
         public List<Show> Shows { get; set; } = new List<Show>();
     }
@@ -0,0 +1,15 @@
+namespace BioscoopServer.models
+{
+    // One seat a customer has selected and is checking out. Nobody else can pick
+    // it until the hold expires or the session releases it.
+    public class SeatHold
+    {
+        public Guid Id { get; set; }
+        public Guid ShowId { get; set; }
+        // the browser tab holding the seat
+        public string SessionId { get; set; } = null!;
+        public string Stoelnummer { get; set; } = null!;
+        // UTC
+        public DateTime ExpiresAt { get; set; }
+    }
+}
@@ -5,8 +5,17 @@ namespace BioscoopServer.models
         public Guid Id { get; set; }
         public Guid FilmId { get; set; }
         public Guid RoomId { get; set; }
+        // The cinema's local time, stored and sent without an offset
         public DateTime? Begintijd { get; set; }
         public DateTime? Eindtijd { get; set; }
+        // Overrides the room's base price
+        public double? Price { get; set; }
+        // Set when the show is one occurrence of a recurring series
+        public Guid? SeriesId { get; set; }
+        // Ads and trailers before the film, and the intermission (0 for none), in minutes.
+        // The film starts PreShowMinutes after Begintijd.
+        public int PreShowMinutes { get; set; }
+        public int IntermissionMinutes { get; set; }
 
         public Film Film { get; set; } = null!;
         public Room Zaal { get; set; } = null!;
@@ -7,6 +7,13 @@ namespace BioscoopServer.models
         public string Password { get; set; } = null!;
         public string? FirstName { get; set; }
         public string? LastName { get; set; }
+        // loyalty points, the balance of the PointsEntry ledger
+        public int Points { get; set; }
+        // set once the user has entered the code sent to Email; promotions for email
+        // domains only apply to verified addresses
+        public bool EmailVerified { get; set; }
+        // the code that was sent, until it is entered
+        public string? EmailVerificationCode { get; set; }
 
         public List<Reservation> Reservations { get; set; } = new List<Reservation>();
         public List<Review> Reviews { get; set; } = new List<Review>();
@@ -0,0 +1,26 @@
+namespace BioscoopServer.models
+{
+    // A gift card or compensation voucher. It is either worth a fixed amount, which
+    // can be spent over several orders, or one free ticket per use.
+    public class Voucher
+    {
+        public Guid Id { get; set; }
+        // e.g. ABCD-EFGH-JKLM
+        public string Code { get; set; } = null!;
+        // "value" or "ticket"
+        public string Kind { get; set; } = null!;
+        // cents, for value vouchers
+        public int Value { get; set; }
+        // cents left, for value vouchers
+        public int Balance { get; set; }
+        public int UsageLimit { get; set; }
+        // UTC
+        public DateTime ExpiresAt { get; set; }
+        // e.g. "Gift card" or "Compensation for cancelled show"
+        public string Description { get; set; } = null!;
+        // UTC
+        public DateTime CreatedAt { get; set; }
+
+        public List<VoucherRedemption> Redemptions { get; set; } = new List<VoucherRedemption>();
+    }
+}
@@ -0,0 +1,17 @@
+namespace BioscoopServer.models
+{
+    // One use of a voucher
+    public class VoucherRedemption
+    {
+        public Guid Id { get; set; }
+        public Guid VoucherId { get; set; }
+        // cents taken off the order
+        public int Amount { get; set; }
+        // UTC
+        public DateTime RedeemedAt { get; set; }
+        // set once the order it paid for has been reserved
+        public Guid? ReservationId { get; set; }
+
+        public Voucher Voucher { get; set; } = null!;
+    }
+}
@@ -0,0 +1,17 @@
+namespace BioscoopServer.models
+{
+    // Someone waiting for seats in a sold-out show. When seats come free the first
+    // people in line get an offer, and the offered seats are kept out of sale for
+    // everyone else until it is claimed, declined or runs out.
+    public class WaitlistEntry
+    {
+        public Guid Id { get; set; }
+        public Guid ShowId { get; set; }
+        public Guid UserId { get; set; }
+        public int Seats { get; set; }
+        // UTC, the order of the line
+        public DateTime JoinedAt { get; set; }
+        // UTC, set while the entry has an open offer
+        public DateTime? OfferExpiresAt { get; set; }
+    }
+}
@@ -3,6 +3,8 @@ using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 using Microsoft.EntityFrameworkCore;
 using BioscoopServer.DBServices;
+using BioscoopServer.Services;
+using System.Text.Json.Serialization;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -13,7 +15,20 @@ builder.Services.AddScoped<DBFilmService>();
 builder.Services.AddScoped<DBUserService>();
 builder.Services.AddScoped<DBReviewServices>();
 builder.Services.AddScoped<DBRoomService>();
-builder.Services.AddControllers();
+builder.Services.AddScoped<DBReservationService>();
+builder.Services.AddScoped<DBShowService>();
+builder.Services.AddScoped<DBSeatHoldService>();
+builder.Services.AddScoped<DBCheckInService>();
+builder.Services.AddScoped<DBWaitlistService>();
+builder.Services.AddScoped<DBVoucherService>();
+builder.Services.AddScoped<DBPromotionService>();
+builder.Services.AddScoped<DBOrderService>();
+builder.Services.AddScoped<DBPointsService>();
+// signs the QR codes on tickets, the key comes from configuration (TicketSigning:Key)
+builder.Services.AddSingleton<TicketCodeService>();
+// Films/GetAllFull sends films with their shows, and every show points back at its film
+builder.Services.AddControllers()
+    .AddJsonOptions(options => options.JsonSerializerOptions.ReferenceHandler = ReferenceHandler.IgnoreCycles);
 
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
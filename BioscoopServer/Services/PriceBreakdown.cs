@@ -0,0 +1,20 @@
+namespace BioscoopServer.Services
+{
+    public class PriceLine
+    {
+        public string Label { get; set; } = null!;
+        public int Quantity { get; set; }
+        // cents, negative for discounts
+        public int UnitPrice { get; set; }
+        public int Amount { get; set; }
+        // why a discount applies, shown under the line
+        public string? Note { get; set; }
+    }
+
+    // The app's PriceBreakdown
+    public class PriceBreakdown
+    {
+        public List<PriceLine> Lines { get; set; } = new List<PriceLine>();
+        public int Total { get; set; }
+    }
+}
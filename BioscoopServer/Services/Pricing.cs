@@ -0,0 +1,172 @@
+using BioscoopServer.models;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace BioscoopServer.Services
+{
+    // Ticket prices in cents, the same rules as the app's utils/pricing. The app only
+    // shows a preview, what a customer pays is worked out here.
+    public static class Pricing
+    {
+        public const double DefaultBasePrice = 11.5;
+        // points for one free ticket
+        public const int FreeTicketPoints = 100;
+
+        private static readonly (string type, string label, double factor)[] TicketTypes =
+        {
+            ("adult", "Adult", 1),
+            ("child", "Child (under 12)", 0.7),
+            ("senior", "Senior (65+)", 0.8),
+            ("student", "Student", 0.85),
+        };
+
+        // per seat, by layout code
+        private static readonly (char code, string label, int surcharge)[] SeatSurcharges =
+        {
+            ('P', "Premium seat surcharge", 250),
+            ('L', "Loveseat surcharge", 400),
+        };
+
+        private const string LayoutCodes = "SA_WCPL";
+        // shows starting before 17:00 on a weekday
+        private const int MatineeEndHour = 17;
+        private const double MatineeDiscount = 0.15;
+        // per ticket on Saturday and Sunday
+        private const int WeekendSurcharge = 150;
+
+        public static IEnumerable<string> TicketTypeNames => TicketTypes.Select(t => t.type);
+
+        // like Math.round in the app
+        public static int Round(double value) => (int)Math.Floor(value + 0.5);
+
+        public static int BasePriceFor(Show show)
+        {
+            return Round((show.Price ?? show.Zaal.BasePrice ?? DefaultBasePrice) * 100);
+        }
+
+        public static int CountOf(TicketCountsDTO tickets, string type)
+        {
+            return type switch
+            {
+                "adult" => tickets.Adult,
+                "child" => tickets.Child,
+                "senior" => tickets.Senior,
+                "student" => tickets.Student,
+                _ => 0
+            };
+        }
+
+        public static int TicketCount(TicketCountsDTO tickets)
+        {
+            return tickets.Adult + tickets.Child + tickets.Senior + tickets.Student;
+        }
+
+        public static int TicketPrice(int basePrice, string type)
+        {
+            var factor = TicketTypes.FirstOrDefault(t => t.type == type).factor;
+            return Round(basePrice * (factor == 0 ? 1 : factor));
+        }
+
+        private static PriceLine Line(string label, int quantity, int unitPrice, string? note = null)
+        {
+            return new PriceLine { Label = label, Quantity = quantity, UnitPrice = unitPrice, Amount = quantity * unitPrice, Note = note };
+        }
+
+        public static PriceBreakdown PriceTickets(Show show, TicketCountsDTO tickets, List<string> seats)
+        {
+            var basePrice = BasePriceFor(show);
+            var start = show.Begintijd ?? DateTime.MinValue;
+            var weekend = start.DayOfWeek == DayOfWeek.Saturday || start.DayOfWeek == DayOfWeek.Sunday;
+            var lines = new List<PriceLine>();
+
+            foreach (var (type, label, _) in TicketTypes)
+            {
+                var count = CountOf(tickets, type);
+                if (count > 0) lines.Add(Line(label, count, TicketPrice(basePrice, type)));
+            }
+
+            var ticketsTotal = lines.Sum(l => l.Amount);
+            var ticketCount = TicketCount(tickets);
+            if (ticketCount > 0 && !weekend && start.Hour < MatineeEndHour)
+                lines.Add(Line("Matinee discount", 1, -Round(ticketsTotal * MatineeDiscount)));
+            if (ticketCount > 0 && weekend)
+                lines.Add(Line("Weekend surcharge", ticketCount, WeekendSurcharge));
+
+            var seatCodes = SeatCodesOf(show.Zaal, seats);
+            foreach (var (code, label, surcharge) in SeatSurcharges)
+            {
+                var count = seatCodes.Count(c => c == code);
+                if (count > 0) lines.Add(Line(label, count, surcharge));
+            }
+
+            return new PriceBreakdown { Lines = lines, Total = lines.Sum(l => l.Amount) };
+        }
+
+        // Takes `amount` cents off an order as an extra line, never below a total of 0
+        public static PriceBreakdown AddDiscount(PriceBreakdown breakdown, string label, int amount, string? note = null)
+        {
+            var discount = Math.Min(amount, breakdown.Total);
+            if (discount <= 0) return breakdown;
+            return new PriceBreakdown
+            {
+                Lines = breakdown.Lines.Append(Line(label, 1, -discount, note)).ToList(),
+                Total = breakdown.Total - discount
+            };
+        }
+
+        private static bool IsTicketLine(PriceLine line) => TicketTypes.Any(t => t.label == line.Label);
+
+        // the most expensive ticket in an order, which is what a free ticket is worth
+        public static int HighestTicketPrice(PriceBreakdown breakdown)
+        {
+            return breakdown.Lines.Where(IsTicketLine).Select(l => l.UnitPrice).DefaultIfEmpty(0).Max();
+        }
+
+        // What `count` free tickets are worth: the most expensive tickets in the order,
+        // each with the most expensive seat surcharge still left
+        public static int FreeTicketsValue(PriceBreakdown breakdown, int count)
+        {
+            static List<int> UnitsOf(IEnumerable<PriceLine> lines) =>
+                lines.SelectMany(l => Enumerable.Repeat(l.UnitPrice, l.Quantity)).OrderByDescending(p => p).ToList();
+
+            var tickets = UnitsOf(breakdown.Lines.Where(IsTicketLine));
+            var surcharges = UnitsOf(breakdown.Lines.Where(l => SeatSurcharges.Any(s => s.label == l.Label)));
+            return tickets.Take(count).Select((price, i) => price + (i < surcharges.Count ? surcharges[i] : 0)).Sum();
+        }
+
+        // The layout code of each labeled seat, labels as the app's buildSeatMap gives them
+        public static List<char> SeatCodesOf(Room room, List<string> seats)
+        {
+            var lines = room.Layout?.Split('\n') ?? Array.Empty<string>();
+            var rows = Math.Max(room.Rijen ?? 0, 0);
+            var columns = Math.Max(room.StoelenPerRij ?? 0, 0);
+            var codes = new Dictionary<string, char>();
+
+            for (var row = 0; row < rows; row++)
+            {
+                var cells = Enumerable.Range(0, columns)
+                    .Select(col => row < lines.Length && col < lines[row].Length && LayoutCodes.Contains(lines[row][col]) ? lines[row][col] : 'S')
+                    .ToList();
+                var label = RowLetter(room.FirstRowAtScreen ?? true ? row : rows - 1 - row);
+                var seatsInRow = cells.Count(IsBookable);
+                var seatIndex = 0;
+                foreach (var code in cells.Where(IsBookable))
+                {
+                    seatIndex++;
+                    codes[$"{label}{(room.NumberFromLeft ?? true ? seatIndex : seatsInRow - seatIndex + 1)}"] = code;
+                }
+            }
+
+            return seats.Where(codes.ContainsKey).Select(s => codes[s]).ToList();
+        }
+
+        // aisles and gaps can't be booked
+        private static bool IsBookable(char code) => code != 'A' && code != '_';
+
+        // 0 -> A, 25 -> Z, 26 -> AA
+        private static string RowLetter(int index)
+        {
+            var letter = ((char)('A' + index % 26)).ToString();
+            return index < 26 ? letter : RowLetter(index / 26 - 1) + letter;
+        }
+    }
+}
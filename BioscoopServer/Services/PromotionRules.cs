@@ -0,0 +1,99 @@
+using System.Text.Json;
+using BioscoopServer.models;
+using BioscoopServer.Models.ModelsDTOs;
+
+namespace BioscoopServer.Services
+{
+    // The rules of the app's utils/promotions: a promotion applies when all of its
+    // conditions match, an empty condition always matches, and an order gets the one
+    // promotion that takes the most off. Email domains are matched against a verified
+    // address only, `verifiedEmail` is null for a user who hasn't verified theirs.
+    public static class PromotionRules
+    {
+        private static readonly JsonSerializerOptions JsonOptions = new JsonSerializerOptions { PropertyNameCaseInsensitive = true };
+
+        private class Conditions
+        {
+            // 0 = Sunday ... 6 = Saturday, of the show
+            public List<int> Weekdays { get; set; } = new List<int>();
+            public List<string> Genres { get; set; } = new List<string>();
+            public List<string> FilmIds { get; set; } = new List<string>();
+            public List<string> RoomIds { get; set; } = new List<string>();
+            public List<string> TicketTypes { get; set; } = new List<string>();
+            public List<string> EmailDomains { get; set; } = new List<string>();
+        }
+
+        private class Effect
+        {
+            // "percentage", "fixed" or "free-ticket"
+            public string Kind { get; set; } = "";
+            public double Percent { get; set; }
+            // cents
+            public int Amount { get; set; }
+            public int Every { get; set; }
+        }
+
+        public static bool IsRunning(Promotion promotion, DateTime now)
+        {
+            return promotion.Active
+                && (promotion.StartsAt == null || promotion.StartsAt <= now)
+                && (promotion.EndsAt == null || promotion.EndsAt >= now);
+        }
+
+        private static bool MatchesAny(List<string> allowed, string? value)
+        {
+            return allowed.Count == 0 || allowed.Any(a => string.Equals(a, value ?? "", StringComparison.OrdinalIgnoreCase));
+        }
+
+        private static bool ConditionsMatch(Conditions conditions, Show show, string? verifiedEmail)
+        {
+            var start = show.Begintijd ?? DateTime.MinValue;
+            var address = verifiedEmail?.ToLowerInvariant() ?? "";
+            return (conditions.Weekdays.Count == 0 || conditions.Weekdays.Contains((int)start.DayOfWeek))
+                && MatchesAny(conditions.Genres, show.Film.Genre)
+                && MatchesAny(conditions.FilmIds, show.FilmId.ToString())
+                && MatchesAny(conditions.RoomIds, show.RoomId.ToString())
+                && (conditions.EmailDomains.Count == 0
+                    || conditions.EmailDomains.Any(d => address.EndsWith($"@{d.ToLowerInvariant().TrimStart('@')}")));
+        }
+
+        // What a promotion takes off, 0 when it doesn't apply
+        public static int Discount(Promotion promotion, Show show, TicketCountsDTO tickets, string? verifiedEmail)
+        {
+            var conditions = JsonSerializer.Deserialize<Conditions>(promotion.Conditions, JsonOptions) ?? new Conditions();
+            var effect = JsonSerializer.Deserialize<Effect>(promotion.Effect, JsonOptions) ?? new Effect();
+            if (!ConditionsMatch(conditions, show, verifiedEmail)) return 0;
+
+            // the price of every ticket the promotion is about, cheapest first
+            var basePrice = Pricing.BasePriceFor(show);
+            var prices = Pricing.TicketTypeNames
+                .Where(type => conditions.TicketTypes.Count == 0 || conditions.TicketTypes.Contains(type))
+                .SelectMany(type => Enumerable.Repeat(Pricing.TicketPrice(basePrice, type), Pricing.CountOf(tickets, type)))
+                .OrderBy(p => p)
+                .ToList();
+            if (prices.Count == 0) return 0;
+
+            return effect.Kind switch
+            {
+                "percentage" => Pricing.Round(prices.Sum() * effect.Percent / 100),
+                "fixed" => effect.Amount,
+                "free-ticket" => effect.Every > 0 ? prices.Take(prices.Count / effect.Every).Sum() : 0,
+                _ => 0
+            };
+        }
+
+        // Adds the running promotion that takes the most off, with the reason it applies
+        public static PriceBreakdown Apply(PriceBreakdown breakdown, IEnumerable<Promotion> promotions, Show show, TicketCountsDTO tickets, string? verifiedEmail)
+        {
+            var now = DateTime.UtcNow;
+            var best = promotions
+                .Where(p => IsRunning(p, now))
+                .Select(p => (promotion: p, amount: Discount(p, show, tickets, verifiedEmail)))
+                .Where(p => p.amount > 0)
+                .OrderByDescending(p => p.amount)
+                .FirstOrDefault();
+            if (best.promotion == null) return breakdown;
+            return Pricing.AddDiscount(breakdown, $"Promotion: {best.promotion.Name}", best.amount, best.promotion.Description ?? "");
+        }
+    }
+}
@@ -0,0 +1,52 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace BioscoopServer.Services
+{
+    // The code in a ticket's QR code: "BISCOOP1.<reservationId>.<showId>.<signature>".
+    // The signature is an HMAC-SHA256 over the reservation and show id with a key only
+    // the server knows (TicketSigning:Key), so a code can't be made up or changed to
+    // another show. Codes are only issued and checked here.
+    public class TicketCodeService
+    {
+        private const string Prefix = "BISCOOP1";
+        private readonly byte[] _key;
+
+        public TicketCodeService(IConfiguration configuration)
+        {
+            var key = configuration["TicketSigning:Key"];
+            if (string.IsNullOrWhiteSpace(key))
+                throw new InvalidOperationException("TicketSigning:Key is not configured.");
+            _key = Encoding.UTF8.GetBytes(key);
+        }
+
+        public string CreateCode(Guid reservationId, Guid showId)
+        {
+            return $"{Prefix}.{reservationId}.{showId}.{Sign(reservationId, showId)}";
+        }
+
+        // The reservation and show in a genuine code, null when it isn't a valid ticket code
+        public (Guid reservationId, Guid showId)? ReadCode(string code)
+        {
+            var parts = code.Trim().Split('.');
+            if (parts.Length != 4 || parts[0] != Prefix)
+                return null;
+            if (!Guid.TryParse(parts[1], out var reservationId) || !Guid.TryParse(parts[2], out var showId))
+                return null;
+
+            var expected = Encoding.ASCII.GetBytes(Sign(reservationId, showId));
+            var given = Encoding.ASCII.GetBytes(parts[3]);
+            return CryptographicOperations.FixedTimeEquals(expected, given) ? (reservationId, showId) : null;
+        }
+
+        private string Sign(Guid reservationId, Guid showId)
+        {
+            var signature = HMACSHA256.HashData(_key, Encoding.UTF8.GetBytes($"{reservationId}.{showId}"));
+            // the first 16 bytes are plenty and keep the QR code small
+            return Convert.ToBase64String(signature, 0, 16)
+                .Replace('+', '-')
+                .Replace('/', '_')
+                .TrimEnd('=');
+        }
+    }
+}
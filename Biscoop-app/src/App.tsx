@@ -3,6 +3,8 @@ import Movie_list from './pages/movie-list/movie-list'
 import Movie_panel from './pages/admin-movie-panel/movie-panel'
 import Zaal_panel from './pages/admin-zaal-panel/zaal-panel'
 import Show_panel from './pages/admin-show-panel/show-panel'
+import Voucher_panel from './pages/admin-voucher-panel/voucher-panel'
+import Promotion_panel from './pages/admin-promotion-panel/promotion-panel'
 import NavBalk from './pages/nav-balk/nav-balk'
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useState } from 'react';
@@ -17,6 +19,11 @@ import EditProfile from './pages/profile/EditProfile';
 import History from './pages/profile/History';
 import UserContext from './context/UserContext'
 import Bookings from './pages/bookings/Bookings';
+import ChangeBooking from './pages/bookings/ChangeBooking';
+import Checkout from './pages/checkout/Checkout';
+import Ticket from './pages/ticket/Ticket';
+import CheckIn from './pages/check-in/CheckIn';
+import WaitlistNotifier from './components/WaitlistNotifier';
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false)
@@ -37,8 +44,12 @@ function App() {
     <BrowserRouter>
       <UserContext.Provider value={{ user, setUser, isAuthenticated, setIsAuthenticated }}>
         <NavBalk isAuthenticated={isAuthenticated} />
+        <WaitlistNotifier />
         <Routes>
           <Route path="/bookings" element={<Bookings />} />
+          <Route path="/bookings/:reservationId/change" element={<ChangeBooking />} />
+          <Route path="/checkout" element={<Checkout />} />
+          <Route path="/ticket/:reservationId" element={<Ticket />} />
           <Route path="/home" element={<LogedInUser />} />
           <Route path="/login" element={<Login onLogin={handleLogin} />} />
           <Route path="/register" element={<Register />} />
@@ -47,9 +58,12 @@ function App() {
           <Route path="/movie_panel" element={<Movie_panel />} />
           <Route path="/zaal_panel" element={<Zaal_panel />} />
           <Route path="/show_panel" element={<Show_panel />} />
+          <Route path="/voucher_panel" element={<Voucher_panel />} />
+          <Route path="/promotion_panel" element={<Promotion_panel />} />
+          <Route path="/check_in" element={<CheckIn />} />
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/ScreeningRoom" element={<ScreeningRoom />} />
-          <Route path="ScreeningRoom/:roomId" element={<ScreeningRoom />} />
+          <Route path="ScreeningRoom/:showId" element={<ScreeningRoom />} />
           <Route path="/profile" element={<Profile user={user} movies={movies} onLogout={handleLogout} />} />
           <Route path="/edit-profile" element={<EditProfile />} />
           <Route path="/history" element={<History movies={movies} />} />
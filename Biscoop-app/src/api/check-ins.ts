@@ -0,0 +1,60 @@
+// Check-in API Service - which seats have been let in at the door (/api/CheckIns).
+// Every entrance checks in through the server, so a ticket scanned at one door
+// is a duplicate at all the others.
+
+const API_BASE_URL = 'http://localhost:5275/api/CheckIns';
+
+export interface CheckIn {
+  reservationId: string;
+  showId: string;
+  seats: string[];
+  checkedInAt: string;
+}
+
+export type CheckInResult =
+  | {
+      checkIn: CheckIn;
+      // false when the ticket had been scanned before, checkIn is the earlier one then
+      isNew: boolean;
+    }
+  // why the server turned the ticket away, e.g. wrong room or a cancelled booking
+  | { refused: string };
+
+// GET the check-ins of a show, earliest first
+export async function getCheckInsForShow(showId: string): Promise<CheckIn[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetByShow?id=${showId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch check-ins: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch check-ins:", error);
+    throw error;
+  }
+}
+
+// CHECK IN the reservation of a scanned ticket code at the entrance of a room. The server
+// checks that the ticket is for the show letting in there now.
+export async function checkIn(code: string, roomId: string): Promise<CheckInResult> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/Create`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, roomId }),
+    });
+    if (response.status === 400 || response.status === 404) {
+      return { refused: await response.text() };
+    }
+    if (response.status === 409) {
+      return { checkIn: await response.json(), isNew: false };
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to check in: ${response.status} ${await response.text()}`);
+    }
+    return { checkIn: await response.json(), isNew: true };
+  } catch (error) {
+    console.error("Failed to check in:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+// Loyalty Service - points customers earn and spend, kept as a ledger on the server.
+// Earning: a point for every whole euro paid, a bonus for a show on a weekday and for
+// the first review of a film. Spending: FREE_TICKET_POINTS buys one free ticket at
+// checkout. Points expire after a year; spending uses up the oldest points first.
+// The server adds and takes off points when an order is placed or cancelled and when a
+// review is posted (BioscoopServer/DBServices/DBPointsService), the app only reads them.
+
+const API_BASE_URL = 'http://localhost:5275/api/Points';
+
+export const FREE_TICKET_POINTS = 100;
+
+export type PointsKind = 'earned' | 'bonus' | 'redeemed' | 'reversed' | 'restored' | 'expired';
+
+export interface PointsEntry {
+  id: string;
+  userId: string;
+  // negative when points are taken off
+  points: number;
+  kind: PointsKind;
+  description: string;
+  createdAt: string;
+  // only for points that were added
+  expiresAt?: string;
+  reservationId?: string;
+  // for review bonuses, one per film
+  filmId?: string;
+}
+
+export interface Points {
+  balance: number;
+  // newest first, including expired points
+  history: PointsEntry[];
+}
+
+// GET the balance and ledger of a user
+export async function getPoints(userId: string): Promise<Points> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetByUser?id=${encodeURIComponent(userId)}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch points:", error);
+    throw error;
+  }
+}
+
+// How many free tickets a balance buys for an order of `tickets` tickets
+export function freeTicketsAvailable(balance: number, tickets: number): number {
+  return Math.min(Math.floor(balance / FREE_TICKET_POINTS), tickets);
+}
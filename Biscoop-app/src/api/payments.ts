@@ -0,0 +1,258 @@
+// Payment Service - every payment goes through a PaymentProvider.
+// The only provider for now is a local mock; a real one (Mollie, Stripe, ...)
+// only has to implement the same interface.
+import type { PriceBreakdown, TicketCounts } from '../utils/pricing';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface PaymentRequest {
+  // cents
+  amount: number;
+  description: string;
+  cardNumber: string;
+  cardHolder: string;
+}
+
+export type PaymentStatus = 'succeeded' | 'declined' | 'timeout';
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  paymentId?: string;
+  message?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  pay(request: PaymentRequest): Promise<PaymentResult>;
+  // gives (part of) a successful payment back
+  refund(paymentId: string, amount: number): Promise<void>;
+}
+
+// ----- Mock provider -----
+// Card numbers decide the outcome, like the test cards of real providers.
+// Any other card number succeeds.
+
+export const MOCK_TEST_CARDS = [
+  { cardNumber: '4242 4242 4242 4242', scenario: 'Payment succeeds' },
+  { cardNumber: '4000 0000 0000 0002', scenario: 'Card is declined' },
+  { cardNumber: '4000 0000 0000 0119', scenario: 'Bank never answers (timeout)' },
+];
+
+const MOCK_PROCESSING_MS = 1500;
+const MOCK_NO_ANSWER_MS = 60000;
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'Mock payments',
+
+  async pay(request) {
+    const card = request.cardNumber.replace(/\s/g, '');
+    await wait(card === '4000000000000119' ? MOCK_NO_ANSWER_MS : MOCK_PROCESSING_MS);
+    if (card === '4000000000000002') {
+      return { status: 'declined', message: 'Your card was declined.' };
+    }
+    return { status: 'succeeded', paymentId: `mock_${crypto.randomUUID()}` };
+  },
+
+  async refund() {
+    await wait(MOCK_PROCESSING_MS);
+  },
+};
+
+export const paymentProvider: PaymentProvider = mockPaymentProvider;
+
+// how long a payment may take before we give up on it
+export const PAYMENT_TIMEOUT_MS = 8000;
+
+// Pays through the configured provider; a provider that doesn't answer in time counts as a timeout.
+// When it does answer after that, the order has already failed, so a late charge is refunded.
+export async function pay(request: PaymentRequest): Promise<PaymentResult> {
+  const timeout = wait(PAYMENT_TIMEOUT_MS).then(
+    (): PaymentResult => ({ status: 'timeout', message: 'The payment took too long. You have not been charged.' })
+  );
+  const payment = paymentProvider.pay(request);
+  try {
+    const result = await Promise.race([payment, timeout]);
+    if (result.status === 'timeout') {
+      payment
+        .then(async (late) => {
+          if (late.status === 'succeeded' && late.paymentId) await paymentProvider.refund(late.paymentId, request.amount);
+        })
+        .catch((error) => console.error("Failed to refund late payment:", error));
+    }
+    return result;
+  } catch (error) {
+    console.error("Payment failed:", error);
+    return { status: 'declined', message: 'The payment could not be processed.' };
+  }
+}
+
+// ----- Paid orders -----
+// What was paid for a reservation. The server prices every order and keeps it
+// (/api/Orders), the payment itself goes through the provider above.
+
+const ORDERS_URL = 'http://localhost:5275/api/Orders';
+
+// One charge on the customer's card. The first one pays for the order,
+// changing a booking to a more expensive one adds another.
+export interface OrderPayment {
+  paymentId: string;
+  // cents
+  amount: number;
+  // cents of this payment given back so far
+  refunded: number;
+}
+
+export interface PaidOrder {
+  reservationId: string;
+  userId: string;
+  // empty when the order was paid for entirely with points or vouchers
+  payments: OrderPayment[];
+  tickets: TicketCounts;
+  breakdown: PriceBreakdown;
+  paidAt: string;
+}
+
+// What is being bought, the server works the price out from it
+export interface OrderRequest {
+  userId: string;
+  showId: string;
+  seats: string[];
+  tickets: TicketCounts;
+  // tickets paid for with loyalty points
+  freeTickets: number;
+  voucherCodes: string[];
+}
+
+export interface ChangeQuote {
+  // with the free tickets and vouchers the booking was paid with
+  breakdown: PriceBreakdown;
+  // cents, what the new price is more (or less) than the current one
+  difference: number;
+}
+
+async function postOrders(path: string, body: unknown): Promise<Response> {
+  const response = await fetch(`${ORDERS_URL}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 400 || response.status === 409) {
+    // the reason is meant for the user
+    throw new Error(await response.text());
+  }
+  if (!response.ok) {
+    throw new Error(`Request failed: ${response.status}`);
+  }
+  return response;
+}
+
+// QUOTE: the price the server charges for an order
+export async function quoteOrder(request: OrderRequest): Promise<PriceBreakdown> {
+  try {
+    const response = await postOrders('Quote', request);
+    return response.json();
+  } catch (error) {
+    console.error("Failed to price order:", error);
+    throw error;
+  }
+}
+
+// PLACE a paid order: the server prices it again and reserves the seats when that is
+// what was paid. Throws when it didn't go through, the payment then has to be refunded.
+export async function placeOrder(
+  request: OrderRequest,
+  payment: { paymentId?: string; amount: number },
+  sessionId: string
+): Promise<PaidOrder> {
+  try {
+    const response = await postOrders('Create', { ...request, ...payment, sessionId });
+    return response.json();
+  } catch (error) {
+    console.error("Failed to place order:", error);
+    throw error;
+  }
+}
+
+// GET the order of a reservation, undefined for bookings made before payments existed
+export async function getOrderForReservation(reservationId: string): Promise<PaidOrder | undefined> {
+  try {
+    const response = await fetch(`${ORDERS_URL}/GetByReservation?id=${reservationId}`);
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch order: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch order:", error);
+    throw error;
+  }
+}
+
+// What is left of the payments for a reservation, in cents
+export function refundableAmount(order: PaidOrder): number {
+  return order.payments.reduce((sum, p) => sum + p.amount - p.refunded, 0);
+}
+
+// An extra charge for a reservation, e.g. the difference when a booking was changed
+export async function addOrderPayment(reservationId: string, paymentId: string, amount: number): Promise<void> {
+  try {
+    await postOrders('AddPayment', { reservationId, paymentId, amount });
+  } catch (error) {
+    console.error("Failed to save payment:", error);
+    throw error;
+  }
+}
+
+// Gives `amount` cents of a reservation's payments back through the provider.
+// The latest payments are refunded first, each partial refund is recorded as soon
+// as the provider confirms it so a failure halfway doesn't lose track of it.
+export async function refundOrder(reservationId: string, amount: number): Promise<void> {
+  const order = await getOrderForReservation(reservationId);
+  if (!order) {
+    throw new Error(`No payment found for reservation ${reservationId}`);
+  }
+  if (amount <= 0) return;
+  if (amount > refundableAmount(order)) {
+    throw new Error('Cannot refund more than was paid');
+  }
+
+  let left = amount;
+  for (const payment of [...order.payments].reverse()) {
+    const part = Math.min(left, payment.amount - payment.refunded);
+    if (part <= 0) continue;
+    await paymentProvider.refund(payment.paymentId, part);
+    await postOrders('Refund', { reservationId, paymentId: payment.paymentId, amount: part });
+    left -= part;
+    if (left === 0) return;
+  }
+}
+
+// QUOTE a change of booking to other seats or another show, undefined when the
+// booking has no order (made before payments existed) so there is nothing to settle
+export async function quoteChange(reservationId: string, showId: string, seats: string[]): Promise<ChangeQuote | undefined> {
+  try {
+    const response = await fetch(`${ORDERS_URL}/QuoteChange`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reservationId, showId, seats }),
+    });
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Failed to price change: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to price change:", error);
+    throw error;
+  }
+}
+
+// The booking has changed (other show or seats) and the difference has been settled
+export async function repriceOrder(reservationId: string): Promise<void> {
+  try {
+    await postOrders('Reprice', { reservationId });
+  } catch (error) {
+    console.error("Failed to reprice order:", error);
+    throw error;
+  }
+}
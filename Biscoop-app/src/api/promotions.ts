@@ -0,0 +1,57 @@
+// Promotion API Service - the promotions marketing has set up (/api/Promotions).
+// They are worked out with the rest of the price, see utils/promotions for the rules.
+import type { Promotion } from '../utils/promotions';
+
+const API_BASE_URL = 'http://localhost:5275/api/Promotions';
+
+// GET all promotions, running or not
+export async function getPromotions(): Promise<Promotion[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetAll`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch promotions: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch promotions:", error);
+    throw error;
+  }
+}
+
+// SAVE a new promotion (without id) or update an existing one
+export async function savePromotion(promotion: Promotion): Promise<Promotion> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/AddOrUpdate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(promotion),
+    });
+    if (response.status === 400) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to save promotion: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to save promotion:", error);
+    throw error;
+  }
+}
+
+// DELETE a promotion
+export async function deletePromotion(id: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/Delete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to delete promotion: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to delete promotion:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,356 @@
+// Reservation API Service - with an in-browser stand-in for working on the
+// booking pages without the server (start Vite with VITE_RESERVATIONS_STAND_IN=true)
+import type { UserBooking } from './users';
+
+const API_BASE_URL = 'http://localhost:5275/api/Reservations';
+
+export type BookingShow = UserBooking['show'];
+
+// Off by default: a booking that only lives in this browser is never seen by the
+// server, so its seats could be sold again
+export const RESERVATIONS_STAND_IN = import.meta.env.VITE_RESERVATIONS_STAND_IN === 'true';
+
+// Returns null when the server can't be reached and the stand-in is switched on.
+// A server that answers with an error status is NOT a reason to fall back.
+async function callServer(url: string, options?: RequestInit): Promise<Response | null> {
+  try {
+    return await fetch(url, options);
+  } catch (error) {
+    if (RESERVATIONS_STAND_IN) return null;
+    console.error("Server not reachable:", error);
+    throw new Error('The server could not be reached, please try again.');
+  }
+}
+
+function postJson(body: unknown): RequestInit {
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+// ----- In-browser stand-in -----
+// Keeps reservations in localStorage in the same shape the server returns,
+// so the booking UI can be developed and tested without the ASP.NET server.
+// New bookings always go through a paid order on the server (api/payments).
+
+const LOCAL_KEY = 'reservations';
+
+function loadLocalReservations(): UserBooking[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_KEY);
+    return raw ? (JSON.parse(raw) as UserBooking[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveLocalReservations(reservations: UserBooking[]) {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(reservations));
+}
+
+function toSeats(reservationId: string, seatNumbers: string[]): UserBooking['seats'] {
+  return Array.from(new Set(seatNumbers)).map((stoelnummer) => ({
+    id: crypto.randomUUID(),
+    reservationId,
+    stoelnummer,
+  }));
+}
+
+function localReservedSeats(showId: string, excludeReservationId?: string): string[] {
+  return loadLocalReservations()
+    .filter((r) => r.showId === showId && r.id !== excludeReservationId)
+    .flatMap((r) => r.seats.map((s) => s.stoelnummer));
+}
+
+function assertSeatsFree(showId: string, seatNumbers: string[], excludeReservationId?: string) {
+  const reserved = localReservedSeats(showId, excludeReservationId);
+  const taken = seatNumbers.filter((s) => reserved.includes(s));
+  if (taken.length > 0) {
+    throw new Error(`Seats already reserved: ${taken.join(', ')}`);
+  }
+}
+
+function assertSeatsNotHeld(showId: string, seatNumbers: string[], sessionId: string) {
+  const { heldByOthers } = standInHolds.get(showId, sessionId);
+  if (seatNumbers.some((s) => heldByOthers.includes(s))) {
+    throw new Error('Some of these seats are being held by someone else');
+  }
+}
+
+function findLocalReservation(reservationId: string): UserBooking {
+  const reservation = loadLocalReservations().find((r) => r.id === reservationId);
+  if (!reservation) {
+    throw new Error(`Reservation with id ${reservationId} was not found`);
+  }
+  return reservation;
+}
+
+const standIn = {
+  getReservedSeats(showId: string): string[] {
+    return localReservedSeats(showId);
+  },
+
+  getById(reservationId: string): UserBooking {
+    return findLocalReservation(reservationId);
+  },
+
+  getByUser(userId: string): UserBooking[] {
+    return loadLocalReservations().filter((r) => r.userId === userId);
+  },
+
+  cancel(reservationId: string) {
+    findLocalReservation(reservationId);
+    saveLocalReservations(loadLocalReservations().filter((r) => r.id !== reservationId));
+  },
+
+  changeSeats(reservationId: string, seatNumbers: string[]): UserBooking {
+    const reservation = findLocalReservation(reservationId);
+    assertSeatsFree(reservation.showId, seatNumbers, reservationId);
+    const updated = { ...reservation, seats: toSeats(reservationId, seatNumbers) };
+    saveLocalReservations(loadLocalReservations().map((r) => (r.id === reservationId ? updated : r)));
+    return updated;
+  },
+
+  move(reservationId: string, seatNumbers: string[], show: BookingShow): UserBooking {
+    const reservation = findLocalReservation(reservationId);
+    assertSeatsFree(show.id, seatNumbers, reservationId);
+    const moved = { ...reservation, showId: show.id, show, seats: toSeats(reservationId, seatNumbers) };
+    saveLocalReservations(loadLocalReservations().map((r) => (r.id === reservationId ? moved : r)));
+    return moved;
+  },
+};
+
+// ----- Seat holds -----
+// Seats a customer selects are held for a while so nobody else can pick them
+// during checkout. The server keeps the holds (api/SeatHolds); every tab is its
+// own session. Expired holds are simply ignored, which releases their seats
+// without anyone having to clean up. When the server can't be reached the holds
+// go into the stand-in, next to the stand-in reservations.
+
+export const SEAT_HOLD_MINUTES = 10;
+
+const HOLDS_API_URL = 'http://localhost:5275/api/SeatHolds';
+const HOLDS_KEY = 'seatHolds';
+const HOLD_SESSION_KEY = 'seatHoldSession';
+
+export interface SeatHold {
+  showId: string;
+  sessionId: string;
+  seats: string[];
+  // epoch milliseconds
+  expiresAt: number;
+}
+
+export interface SeatHolds {
+  // this session's hold, if it hasn't expired
+  own?: SeatHold;
+  heldByOthers: string[];
+}
+
+export function getHoldSessionId(): string {
+  let sessionId = sessionStorage.getItem(HOLD_SESSION_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    sessionStorage.setItem(HOLD_SESSION_KEY, sessionId);
+  }
+  return sessionId;
+}
+
+function loadActiveHolds(): SeatHold[] {
+  try {
+    const raw = localStorage.getItem(HOLDS_KEY);
+    const holds = raw ? (JSON.parse(raw) as SeatHold[]) : [];
+    return holds.filter((h) => h.expiresAt > Date.now());
+  } catch {
+    return [];
+  }
+}
+
+function saveHolds(holds: SeatHold[]) {
+  localStorage.setItem(HOLDS_KEY, JSON.stringify(holds));
+}
+
+const standInHolds = {
+  get(showId: string, sessionId: string): SeatHolds {
+    const holds = loadActiveHolds().filter((h) => h.showId === showId);
+    return {
+      own: holds.find((h) => h.sessionId === sessionId),
+      heldByOthers: holds.filter((h) => h.sessionId !== sessionId).flatMap((h) => h.seats),
+    };
+  },
+
+  hold(showId: string, sessionId: string, seatNumbers: string[]): SeatHold {
+    const { own, heldByOthers } = standInHolds.get(showId, sessionId);
+    const taken = seatNumbers.filter((s) => heldByOthers.includes(s) || localReservedSeats(showId).includes(s));
+    if (taken.length > 0) {
+      throw new Error(`Seats are no longer available: ${taken.join(', ')}`);
+    }
+    const hold: SeatHold = {
+      showId,
+      sessionId,
+      seats: seatNumbers,
+      expiresAt: own?.expiresAt ?? Date.now() + SEAT_HOLD_MINUTES * 60 * 1000,
+    };
+    const others = loadActiveHolds().filter((h) => !(h.showId === showId && h.sessionId === sessionId));
+    saveHolds([...others, hold]);
+    return hold;
+  },
+
+  release(showId: string, sessionId: string) {
+    saveHolds(loadActiveHolds().filter((h) => !(h.showId === showId && h.sessionId === sessionId)));
+  },
+};
+
+// GET this session's hold and the seats other sessions hold for a show
+export async function getSeatHolds(showId: string): Promise<SeatHolds> {
+  const sessionId = getHoldSessionId();
+  try {
+    const response = await callServer(`${HOLDS_API_URL}/GetByShow?id=${showId}&sessionId=${sessionId}`);
+    if (!response) return standInHolds.get(showId, sessionId);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch seat holds: ${response.status}`);
+    }
+    const holds: { own: SeatHold | null; heldByOthers: string[] } = await response.json();
+    return { own: holds.own ?? undefined, heldByOthers: holds.heldByOthers };
+  } catch (error) {
+    console.error("Failed to fetch seat holds:", error);
+    throw error;
+  }
+}
+
+// HOLD exactly `seatNumbers` for this session. The countdown starts with the
+// first held seat and is not reset by picking more seats.
+export async function holdSeats(showId: string, seatNumbers: string[]): Promise<SeatHold> {
+  const sessionId = getHoldSessionId();
+  try {
+    const response = await callServer(`${HOLDS_API_URL}/Hold`, postJson({ showId, sessionId, seats: seatNumbers }));
+    if (!response) return standInHolds.hold(showId, sessionId, seatNumbers);
+    if (!response.ok) {
+      throw new Error(response.status === 409 ? await response.text() : `Failed to hold seats: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to hold seats:", error);
+    throw error;
+  }
+}
+
+// RELEASE this session's hold for a show. Also sent while the tab closes (keepalive).
+export async function releaseHold(showId: string): Promise<void> {
+  const sessionId = getHoldSessionId();
+  try {
+    const response = await callServer(`${HOLDS_API_URL}/Release`, { ...postJson({ showId, sessionId }), keepalive: true });
+    if (!response) {
+      standInHolds.release(showId, sessionId);
+    } else if (!response.ok) {
+      throw new Error(`Failed to release seat hold: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to release seat hold:", error);
+  }
+}
+
+// Bookings made while the server was down only live in this browser
+export function getStandInBookings(userId: string): UserBooking[] {
+  return standIn.getByUser(userId);
+}
+
+// ----- API -----
+
+// GET seat numbers that are already taken for a show
+export async function getReservedSeats(showId: string): Promise<string[]> {
+  try {
+    const response = await callServer(`${API_BASE_URL}/GetByShow?id=${showId}`);
+    if (!response) return standIn.getReservedSeats(showId);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch reserved seats: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch reserved seats:", error);
+    throw error;
+  }
+}
+
+// GET a single reservation by ID
+export async function getReservationById(reservationId: string): Promise<UserBooking> {
+  try {
+    const response = await callServer(`${API_BASE_URL}/GetById?id=${reservationId}`);
+    if (!response) return standIn.getById(reservationId);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch reservation: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch reservation:", error);
+    throw error;
+  }
+}
+
+// CANCEL a reservation, which frees its seats for the show. The server gives back the
+// points and vouchers spent on it; returns the codes of those vouchers.
+export async function cancelReservation(reservationId: string): Promise<string[]> {
+  try {
+    const response = await callServer(`${API_BASE_URL}/Cancel`, postJson({ id: reservationId }));
+    let restoredVouchers: string[] = [];
+    if (!response) {
+      standIn.cancel(reservationId);
+    } else if (!response.ok) {
+      throw new Error(`Failed to cancel reservation: ${response.status}`);
+    } else {
+      restoredVouchers = (await response.json()).restoredVouchers ?? [];
+    }
+    return restoredVouchers;
+  } catch (error) {
+    console.error("Failed to cancel reservation:", error);
+    throw error;
+  }
+}
+
+// CHANGE the seats of an existing reservation (same show)
+export async function changeSeats(reservationId: string, seatNumbers: string[]): Promise<UserBooking> {
+  try {
+    const sessionId = getHoldSessionId();
+    const response = await callServer(`${API_BASE_URL}/ChangeSeats`, postJson({ id: reservationId, seats: seatNumbers, sessionId }));
+    if (!response) {
+      const reservation = standIn.getById(reservationId);
+      assertSeatsNotHeld(reservation.showId, seatNumbers, sessionId);
+      const changed = standIn.changeSeats(reservationId, seatNumbers);
+      standInHolds.release(reservation.showId, sessionId);
+      return changed;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to change seats: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to change seats:", error);
+    throw error;
+  }
+}
+
+// MOVE a reservation to another show of the same film, with new seats.
+// The old seats are released in the same step. `show` is only used by the stand-in.
+export async function moveReservation(reservationId: string, seatNumbers: string[], show: BookingShow): Promise<UserBooking> {
+  try {
+    const sessionId = getHoldSessionId();
+    const response = await callServer(`${API_BASE_URL}/Move`, postJson({ id: reservationId, showId: show.id, seats: seatNumbers, sessionId }));
+    if (!response) {
+      assertSeatsNotHeld(show.id, seatNumbers, sessionId);
+      const moved = standIn.move(reservationId, seatNumbers, show);
+      standInHolds.release(show.id, sessionId);
+      return moved;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to move reservation: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to move reservation:", error);
+    throw error;
+  }
+}
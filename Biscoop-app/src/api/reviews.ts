@@ -92,3 +92,31 @@ export async function deleteReview(movieId: string, reviewId: string, token?: st
   }
   return [];
 }
+
+const FILM_REVIEWS_URL = 'http://localhost:5275/api/Review';
+
+export interface FilmReviewDTO {
+  userId: string;
+  filmId: string;
+  rating: number;
+  description: string;
+}
+
+// POST a review of a film in the database, the server gives the first review of a
+// film a loyalty points bonus
+export async function addFilmReview(review: FilmReviewDTO): Promise<FilmReviewDTO> {
+  try {
+    const response = await fetch(`${FILM_REVIEWS_URL}/Post`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(review),
+    });
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to post review:", error);
+    throw error;
+  }
+}
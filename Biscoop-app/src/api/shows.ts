@@ -0,0 +1,182 @@
+// Show API Service - the shows on the server (/api/Shows).
+// The server calls the fields Begintijd/Eindtijd/RoomId/FilmId; the app works
+// with ShowProp (start_date/end_date/zaalId/movieId), so everything is mapped here.
+import type { ShowProp, ZaalProp } from '../utils/fake-data';
+import { toLocalDateTime } from '../utils/date-fromatter';
+import { SCHEDULING_RULES } from '../utils/scheduling';
+
+const API_BASE_URL = 'http://localhost:5275/api/Shows';
+
+// Mirrors ShowDTO on the server (and the Show it sends back).
+// begintijd/eindtijd are local time without an offset, see toLocalDateTime
+export interface ShowDTO {
+  id?: string;
+  filmId: string;
+  roomId: string;
+  begintijd: string;
+  eindtijd: string;
+  price?: number | null;
+  seriesId?: string | null;
+  preShowMinutes?: number | null;
+  intermissionMinutes?: number | null;
+}
+
+export function fromShowDTO(dto: ShowDTO): ShowProp {
+  return {
+    id: dto.id ?? '',
+    movieId: dto.filmId,
+    zaalId: dto.roomId,
+    start_date: new Date(dto.begintijd),
+    end_date: new Date(dto.eindtijd),
+    price: dto.price ?? undefined,
+    seriesId: dto.seriesId ?? undefined,
+    preShowMinutes: dto.preShowMinutes ?? undefined,
+    intermissionMinutes: dto.intermissionMinutes ?? undefined,
+  };
+}
+
+export function toShowDTO(show: ShowProp): ShowDTO {
+  return {
+    id: show.id || undefined,
+    filmId: show.movieId,
+    roomId: show.zaalId,
+    begintijd: toLocalDateTime(show.start_date),
+    eindtijd: toLocalDateTime(show.end_date),
+    price: show.price ?? null,
+    seriesId: show.seriesId ?? null,
+    // new shows get the current defaults, so changing those later doesn't move them
+    preShowMinutes: show.preShowMinutes ?? SCHEDULING_RULES.preShowMinutes,
+    intermissionMinutes: show.intermissionMinutes ?? 0,
+  };
+}
+
+export type ShowWithZaalDTO = ShowDTO & { zaal: ZaalProp };
+
+// Films/GetAllFull nests every show with its room in a film, in the server's naming
+export function mapFilmShows<F extends { shows: ShowWithZaalDTO[] }>(
+  film: F
+): Omit<F, 'shows'> & { shows: (ShowProp & { zaal: ZaalProp })[] } {
+  return { ...film, shows: film.shows.map((dto) => ({ ...fromShowDTO(dto), zaal: dto.zaal })) };
+}
+
+async function getShows(url: string, what: string): Promise<ShowProp[]> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${what}: ${response.status}`);
+    }
+    const shows: ShowDTO[] = await response.json();
+    return shows.map(fromShowDTO);
+  } catch (error) {
+    console.error(`Failed to fetch ${what}:`, error);
+    throw error;
+  }
+}
+
+// GET all shows
+export function getAllShows(): Promise<ShowProp[]> {
+  return getShows(`${API_BASE_URL}/GetAll`, 'shows');
+}
+
+// GET the shows of one film, earliest first
+export function getShowsByFilm(filmId: string): Promise<ShowProp[]> {
+  return getShows(`${API_BASE_URL}/GetByFilm?id=${filmId}`, 'shows of film');
+}
+
+// GET the shows in one room, earliest first
+export function getShowsByRoom(roomId: string): Promise<ShowProp[]> {
+  return getShows(`${API_BASE_URL}/GetByRoom?id=${roomId}`, 'shows of room');
+}
+
+// GET the shows of a series, earliest first
+export function getShowsBySeries(seriesId: string): Promise<ShowProp[]> {
+  return getShows(`${API_BASE_URL}/GetBySeries?id=${seriesId}`, 'shows of series');
+}
+
+// ADD a show (without id) or UPDATE an existing one.
+// A show that clashes with another show in its zaal is refused (409) with the reason.
+export async function saveShow(show: ShowProp): Promise<ShowProp> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/AddOrUpdate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toShowDTO(show)),
+    });
+    if (response.status === 409) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to save show: ${response.status} ${await response.text()}`);
+    }
+    return fromShowDTO(await response.json());
+  } catch (error) {
+    console.error("Failed to save show:", error);
+    throw error;
+  }
+}
+
+// DELETE a show. A show with reservations is refused (409) with the reason.
+export async function deleteShow(showId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/Delete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: showId }),
+    });
+    if (response.status === 409) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to delete show: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to delete show:", error);
+    throw error;
+  }
+}
+
+// SAVE all shows of a series in one go. Without seriesId a new series is created;
+// otherwise upcoming shows of the series that aren't in `shows` are cancelled.
+// Nothing is saved when one of the shows clashes with another show, or when a show
+// that would be cancelled has reservations (409 with the reason).
+export async function saveSeries(shows: ShowProp[], seriesId?: string): Promise<ShowProp[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/SaveSeries`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ seriesId, shows: shows.map(toShowDTO) }),
+    });
+    if (response.status === 409) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to save series: ${response.status} ${await response.text()}`);
+    }
+    const saved: ShowDTO[] = await response.json();
+    return saved.map(fromShowDTO);
+  } catch (error) {
+    console.error("Failed to save series:", error);
+    throw error;
+  }
+}
+
+// CANCEL the upcoming shows of a series, shows that already started are kept.
+// Refused (409 with the reason) when some of them have reservations.
+export async function cancelSeries(seriesId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/CancelSeries`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ seriesId }),
+    });
+    if (response.status === 409) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to cancel series: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to cancel series:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+// Ticket API Service - the signed codes in ticket QR codes (/api/Tickets).
+// Codes are signed and checked on the server, the key never reaches the browser.
+
+const API_BASE_URL = 'http://localhost:5275/api/Tickets';
+
+export interface TicketReference {
+  reservationId: string;
+  showId: string;
+}
+
+// GET the code for a reservation's QR code
+export async function getTicketCode(reservationId: string): Promise<string> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetCode?id=${reservationId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ticket code: ${response.status}`);
+    }
+    const { code }: { code: string } = await response.json();
+    return code;
+  } catch (error) {
+    console.error("Failed to fetch ticket code:", error);
+    throw error;
+  }
+}
+
+// Returns the reference when the code is genuine, null when it isn't a valid ticket code
+export async function verifyTicketCode(code: string): Promise<TicketReference | null> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/Verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    if (response.status === 400) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to verify ticket code: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to verify ticket code:", error);
+    throw error;
+  }
+}
@@ -1,4 +1,6 @@
 // User API Service - Films Style with Database Support
+import { RESERVATIONS_STAND_IN, getStandInBookings } from './reservations';
+
 const API_BASE_URL = 'http://localhost:5275/api/Users';
 
 export interface UserDTO {
@@ -14,6 +16,8 @@ export interface UserProfile {
   email: string;
   firstName: string;
   lastName: string;
+  // email-domain promotions only apply to a verified address
+  emailVerified: boolean;
 }
 
 export interface UserBooking {
@@ -38,6 +42,9 @@ export interface UserBooking {
       naam: string;
       rijen: number;
       stoelenPerRij: number;
+      layout?: string;
+      firstRowAtScreen?: boolean;
+      numberFromLeft?: boolean;
     };
   };
   seats: Array<{
@@ -145,6 +152,47 @@ export async function deleteUserAccount(userId: string, userData: UserDTO): Prom
   }
 }
 
+// POST send a verification code to the user's email address
+export async function sendEmailVerification(userId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/SendVerification`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to send verification code: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to send verification code:", error);
+    throw error;
+  }
+}
+
+// POST the code from the email, the server says why when it's not right
+export async function verifyEmail(userId: string, code: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/VerifyEmail`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId, code }),
+    });
+    if (response.status === 400) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to verify email: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to verify email:", error);
+    throw error;
+  }
+}
+
 // GET user film history
 export async function getUserHistory(userId: string): Promise<FilmHistory[]> {
   try {
@@ -181,7 +229,14 @@ export async function addToUserHistory(userId: string, filmId: string): Promise<
 // GET user bookings
 export async function getUserBookings(userId: string): Promise<UserBooking[]> {
   try {
-    const response = await fetch(`${API_BASE_URL}/GetBookings?id=${userId}`);
+    const response = await fetch(`${API_BASE_URL}/GetBookings?id=${userId}`).catch((error) => {
+      if (!RESERVATIONS_STAND_IN) throw error;
+      return null;
+    });
+    if (!response) {
+      // server not running: use the bookings kept by the reservations stand-in
+      return getStandInBookings(userId);
+    }
     if (!response.ok) {
       throw new Error(`Failed to fetch bookings: ${response.status}`);
     }
@@ -0,0 +1,122 @@
+// Voucher API Service - gift cards and compensation vouchers (/api/Vouchers).
+// A voucher is either worth a fixed amount, which can be spent over several
+// orders, or one free ticket per use. Every voucher has an expiry date and a
+// usage limit. Vouchers are checked and debited on the server while it places
+// the order, in one transaction, so two orders can't spend the same balance.
+// Cancelling the reservation gives them back.
+import { formatPrice } from '../utils/pricing';
+
+const API_BASE_URL = 'http://localhost:5275/api/Vouchers';
+
+export type VoucherKind = 'value' | 'ticket';
+
+export interface VoucherRedemption {
+  id: string;
+  // cents taken off the order
+  amount: number;
+  redeemedAt: string;
+  reservationId?: string;
+}
+
+export interface Voucher {
+  code: string;
+  kind: VoucherKind;
+  // cents, for 'value' vouchers
+  value: number;
+  // cents left, for 'value' vouchers
+  balance: number;
+  usageLimit: number;
+  expiresAt: string;
+  // e.g. "Gift card" or "Compensation for cancelled show"
+  description: string;
+  createdAt: string;
+  redemptions: VoucherRedemption[];
+}
+
+async function postJson(url: string, body: unknown): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 400 || response.status === 409) {
+    // the reason is meant for the user
+    throw new Error(await response.text());
+  }
+  if (!response.ok) {
+    throw new Error(`Request failed: ${response.status}`);
+  }
+  return response;
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/(.{4})(?=.)/g, '$1-');
+}
+
+// GET all vouchers
+export async function getAllVouchers(): Promise<Voucher[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetAll`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch vouchers: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch vouchers:", error);
+    throw error;
+  }
+}
+
+// GET a voucher by its code, undefined when the code does not exist
+export async function getVoucher(code: string): Promise<Voucher | undefined> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/GetByCode?code=${encodeURIComponent(normalizeCode(code))}`);
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch voucher: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to fetch voucher:", error);
+    throw error;
+  }
+}
+
+export interface NewVouchers {
+  kind: VoucherKind;
+  // cents, ignored for 'ticket' vouchers
+  value: number;
+  usageLimit: number;
+  expiresAt: string;
+  description: string;
+  count: number;
+}
+
+// GENERATE a batch of vouchers with new codes
+export async function generateVouchers(request: NewVouchers): Promise<Voucher[]> {
+  try {
+    const response = await postJson(`${API_BASE_URL}/Generate`, request);
+    return response.json();
+  } catch (error) {
+    console.error("Failed to generate vouchers:", error);
+    throw error;
+  }
+}
+
+export function usesLeft(voucher: Voucher): number {
+  return Math.max(voucher.usageLimit - voucher.redemptions.length, 0);
+}
+
+// Why a voucher can't be used right now, or null when it can
+export function voucherProblem(voucher: Voucher | undefined, now: number = Date.now()): string | null {
+  if (!voucher) return 'This code does not exist.';
+  if (new Date(voucher.expiresAt).getTime() <= now) return 'This voucher has expired.';
+  if (usesLeft(voucher) === 0) return 'This voucher has been used up.';
+  if (voucher.kind === 'value' && voucher.balance <= 0) return 'There is no balance left on this voucher.';
+  return null;
+}
+
+export function describeVoucher(voucher: Voucher): string {
+  if (voucher.kind === 'ticket') return `free ticket, ${usesLeft(voucher)} use(s) left`;
+  return `${formatPrice(voucher.balance)} left of ${formatPrice(voucher.value)}, ${usesLeft(voucher)} use(s) left`;
+}
@@ -0,0 +1,141 @@
+// Waitlist API Service - people waiting for seats in a sold-out show (/api/Waitlist).
+// When seats come free (a cancellation, an expired hold) the first people in
+// line get an offer they can claim for 15 minutes. Offered seats are
+// kept out of sale for everyone else until the offer is claimed, declined or runs out.
+import { formatDateForShowing } from '../utils/date-fromatter';
+
+const API_BASE_URL = 'http://localhost:5275/api/Waitlist';
+
+export interface WaitlistEntry {
+  id: string;
+  showId: string;
+  userId: string;
+  seats: number;
+  joinedAt: string;
+  // for the notification, e.g. "Dune · 19/10/2026 - 20:00"
+  label: string;
+  // set while the entry has an open offer
+  offerExpiresAt?: number;
+}
+
+interface ServerWaitlistEntry extends Omit<WaitlistEntry, 'label' | 'offerExpiresAt'> {
+  filmName: string | null;
+  begintijd: string | null;
+  offerExpiresAt: number | null;
+}
+
+const toEntry = ({ filmName, begintijd, offerExpiresAt, ...entry }: ServerWaitlistEntry): WaitlistEntry => ({
+  ...entry,
+  label: `${filmName ?? ''} · ${begintijd ? formatDateForShowing(begintijd) : ''}`,
+  offerExpiresAt: offerExpiresAt ?? undefined,
+});
+
+export const hasOffer = (entry: WaitlistEntry) => entry.offerExpiresAt !== undefined;
+
+async function fetchEntries(url: string): Promise<WaitlistEntry[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch waitlist: ${response.status}`);
+  }
+  return ((await response.json()) as ServerWaitlistEntry[]).map(toEntry);
+}
+
+// GET the waitlists of all shows, in order of joining
+export async function getAllWaitlists(): Promise<WaitlistEntry[]> {
+  try {
+    return await fetchEntries(`${API_BASE_URL}/GetAll`);
+  } catch (error) {
+    console.error("Failed to fetch waitlists:", error);
+    throw error;
+  }
+}
+
+// GET the waitlist of a show, in order of joining
+export async function getWaitlist(showId: string): Promise<WaitlistEntry[]> {
+  try {
+    return await fetchEntries(`${API_BASE_URL}/GetByShow?id=${showId}`);
+  } catch (error) {
+    console.error("Failed to fetch waitlist:", error);
+    throw error;
+  }
+}
+
+// GET everything a user is waiting for, across all shows
+export async function getEntriesForUser(userId: string): Promise<WaitlistEntry[]> {
+  try {
+    return await fetchEntries(`${API_BASE_URL}/GetByUser?id=${userId}`);
+  } catch (error) {
+    console.error("Failed to fetch waitlist entries:", error);
+    throw error;
+  }
+}
+
+// JOIN the waitlist of a show
+export async function joinWaitlist(showId: string, userId: string, seats: number): Promise<WaitlistEntry> {
+  if (seats < 1) {
+    throw new Error('At least one seat is required');
+  }
+  try {
+    const response = await fetch(`${API_BASE_URL}/Join`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ showId, userId, seats }),
+    });
+    if (response.status === 409) {
+      throw new Error(await response.text());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to join waitlist: ${response.status}`);
+    }
+    return toEntry(await response.json());
+  } catch (error) {
+    console.error("Failed to join waitlist:", error);
+    throw error;
+  }
+}
+
+// LEAVE the waitlist, this also declines an open offer
+export async function leaveWaitlist(entry: WaitlistEntry): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/Leave`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ showId: entry.showId, userId: entry.userId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to leave waitlist: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to leave waitlist:", error);
+    throw error;
+  }
+}
+
+// Seats offered to other users, which are not for sale right now
+export async function getSeatsOfferedToOthers(showId: string, userId: string | null): Promise<number> {
+  return (await getWaitlist(showId))
+    .filter((e) => hasOffer(e) && e.userId !== userId)
+    .reduce((sum, e) => sum + e.seats, 0);
+}
+
+export interface ShowAvailability {
+  // seats this user could still buy
+  freeSeats: number;
+  soldOut: boolean;
+}
+
+// What is left of a show for a user. When seats came free the server
+// offers them to the waitlist first.
+export async function checkAvailability(showId: string, userId: string | null): Promise<ShowAvailability> {
+  try {
+    const query = userId ? `&userId=${userId}` : '';
+    const response = await fetch(`${API_BASE_URL}/CheckAvailability?id=${showId}${query}`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`Failed to check availability: ${response.status}`);
+    }
+    return response.json();
+  } catch (error) {
+    console.error("Failed to check availability:", error);
+    throw error;
+  }
+}
@@ -1,38 +1,97 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import './Seats.css';
 import type { ZaalProp } from "./../utils/fake-data";
+import { buildSeatMap, cellLabel } from "./../utils/seat-layout";
+import type { SeatCellType } from "./../utils/seat-layout";
+import { findBestSeats } from "./../utils/best-seats";
+
+type SeatStatus = 'available' | 'selected' | 'held' | 'reserved';
 
 type Seat = {
-  id: number;
-  reserved: boolean;
+  type: SeatCellType;
+  label: string;
+  status: SeatStatus;
 };
 
 interface SeatsProps {
   zaal: ZaalProp;
   button: boolean;
+  reservedSeats?: string[];
+  // seats someone else is holding during their checkout
+  heldSeats?: string[];
+  // pass selectedSeats + onSelectionChange to control the selection from outside
+  selectedSeats?: string[];
+  onSelectionChange?: (seatNumbers: string[]) => void;
+  onReserve?: (seatNumbers: string[]) => void;
+  // number of tickets chosen up front; the selection is capped at it and has to match it to reserve
+  seatCount?: number;
 }
 
-const Seats: React.FC<SeatsProps> = ({ zaal, button }) => {
-  const [seats, setSeats] = useState<Seat[]>([]);
-
-  const [hoveredId, setHoveredId] = useState<number | null>(null);
-  useEffect(() => {
-    const totalSeats = Math.max(zaal.rijen * zaal.stoelenPerRij, 0);
-    const newSeats = Array.from({ length: totalSeats }, (_, i) => ({
-      id: i,
-      reserved: false,
-    }));
-    setSeats(newSeats);
-  }, [zaal.rijen, zaal.stoelenPerRij]);
-
-  const toggleReservation = (id: number) => {
-    setSeats(prevSeats => {
-      const updatedSeats = prevSeats.map(seat =>
-        seat.id === id ? { ...seat, reserved: !seat.reserved } : seat
-      );
-      localStorage.setItem('seats', JSON.stringify(updatedSeats));
-      return updatedSeats;
-    });
+const STATUS_LABELS: Record<SeatStatus, string> = {
+  available: 'Available',
+  selected: 'Selected',
+  held: 'Held by someone else',
+  reserved: 'Reserved',
+};
+
+const Seats: React.FC<SeatsProps> = ({
+  zaal,
+  button,
+  reservedSeats = [],
+  heldSeats = [],
+  selectedSeats,
+  onSelectionChange,
+  onReserve,
+  seatCount,
+}) => {
+  const [ownSelection, setOwnSelection] = useState<string[]>([]);
+  const [hoveredLabel, setHoveredLabel] = useState<string | null>(null);
+  const [groupSize, setGroupSize] = useState(2);
+  const [finderMessage, setFinderMessage] = useState('');
+  const selection = selectedSeats ?? ownSelection;
+
+  // a seat that got reserved or held by someone else in the meantime can't stay selected
+  const statusOf = (label: string): SeatStatus => {
+    if (reservedSeats.includes(label)) return 'reserved';
+    if (heldSeats.includes(label)) return 'held';
+    return selection.includes(label) ? 'selected' : 'available';
+  };
+
+  const seatMap = buildSeatMap(zaal);
+  const seats: Seat[] = seatMap.flatMap(row =>
+    row.cells.flatMap(cell => (cell.label ? [{ type: cell.type, label: cell.label, status: statusOf(cell.label) }] : []))
+  );
+  const seatByLabel = new Map(seats.map(seat => [seat.label, seat]));
+  const selectedNumbers = seats.filter(seat => seat.status === 'selected').map(seat => seat.label);
+  const specialTypes = Array.from(new Set(seats.map(seat => seat.type))).filter(type => type !== 'seat');
+
+  const toggleSelection = (seat: Seat) => {
+    if (seat.status === 'reserved' || seat.status === 'held') return;
+    if (seatCount !== undefined && seat.status === 'available' && selectedNumbers.length >= seatCount) {
+      setFinderMessage(`You have ${seatCount} ticket(s). Deselect a seat first.`);
+      return;
+    }
+    const next = seat.status === 'selected'
+      ? selectedNumbers.filter(label => label !== seat.label)
+      : [...selectedNumbers, seat.label];
+    changeSelection(next);
+  };
+
+  const changeSelection = (next: string[]) => {
+    setFinderMessage('');
+    setOwnSelection(next);
+    onSelectionChange?.(next);
+  };
+
+  // replaces the current selection, so the user's own picks don't count as taken
+  const selectBestSeats = () => {
+    const count = seatCount ?? groupSize;
+    const best = findBestSeats(zaal, count, [...reservedSeats, ...heldSeats]);
+    if (!best) {
+      setFinderMessage(`There aren't ${count} free seats left in this show.`);
+      return;
+    }
+    changeSelection(best);
   };
 
   return (
@@ -46,34 +105,91 @@ const Seats: React.FC<SeatsProps> = ({ zaal, button }) => {
         <div className="legend-item">
           <span className="box reserved"></span>Reserved
         </div>
+        <div className="legend-item">
+          <span className="box held"></span>Held by someone else
+        </div>
+      </div>
+      {specialTypes.length > 0 && (
+        <div className="legend">
+          {specialTypes.map(type => (
+            <div key={type} className="legend-item">
+              <span className={`box available seat-${type}`}></span>{cellLabel(type)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {button && (
+        <div className="best-seats">
+          {seatCount === undefined ? (
+            <label>
+              Find the best seats for
+              <input
+                type="number"
+                min={1}
+                max={seats.length}
+                value={groupSize}
+                onChange={(e) => setGroupSize(Math.max(1, Number(e.target.value)))}
+              />
+              people
+            </label>
+          ) : (
+            <span>Find the best {seatCount} seat(s) for you</span>
+          )}
+          <button type="button" className="button2" onClick={selectBestSeats}>Find seats</button>
+          {finderMessage && <span className="best-seats-message">{finderMessage}</span>}
+        </div>
+      )}
+
+      <div className="screen-indicator">
+        <div className="screen-bar"></div>
+        SCREEN
       </div>
 
       <div
         className="seat-grid"
         style={{
-          gridTemplateColumns: `repeat(${zaal.stoelenPerRij}, 44px)`,
+          gridTemplateColumns: `28px repeat(${zaal.stoelenPerRij}, 44px) 28px`,
         }}
       >
-        {seats.map(seat => (
-          <div
-            key={seat.id}
-            className={`box ${seat.reserved ? 'reserved' : 'available'}`}
-            onClick={() => toggleReservation(seat.id)}
-            onMouseEnter={() => setHoveredId(seat.id)}
-            onMouseLeave={() => setHoveredId(null)}
-          >
-            {zaal.rijen * zaal.stoelenPerRij - seat.id}
-            {hoveredId === seat.id && (
-              <div className="tooltip">
-                Seat {zaal.rijen * zaal.stoelenPerRij - seat.id}<br />
-                {seat.reserved ? 'Reserved' : 'Available'}
+        {seatMap.map((row, rowIndex) => [
+          <div key={`${rowIndex}-left`} className="row-label">{row.label}</div>,
+          ...row.cells.map((cell, colIndex) => {
+            const seat = cell.label ? seatByLabel.get(cell.label) : undefined;
+            if (!seat) return <div key={`${rowIndex}-${colIndex}`} className={`seat-cell-${cell.type}`} />;
+            return (
+              <div
+                key={`${rowIndex}-${colIndex}`}
+                className={`box ${seat.status} seat-${seat.type}`}
+                onClick={() => toggleSelection(seat)}
+                onMouseEnter={() => setHoveredLabel(seat.label)}
+                onMouseLeave={() => setHoveredLabel(null)}
+              >
+                {seat.label}
+                {hoveredLabel === seat.label && (
+                  <div className="tooltip">
+                    Seat {seat.label}{seat.type !== 'seat' && ` · ${cellLabel(seat.type)}`}<br />
+                    {STATUS_LABELS[seat.status]}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        ))}
+            );
+          }),
+          <div key={`${rowIndex}-right`} className="row-label">{row.label}</div>,
+        ])}
       </div>
 
-      {button && <button className='button2'>Reserve</button>}
+      {button && (
+        <button
+          className='button2'
+          disabled={selectedNumbers.length === 0 || (seatCount !== undefined && selectedNumbers.length !== seatCount)}
+          onClick={() => onReserve?.(selectedNumbers)}
+        >
+          {seatCount !== undefined && selectedNumbers.length < seatCount
+            ? `Select ${seatCount - selectedNumbers.length} more seat(s)`
+            : `Reserve${selectedNumbers.length > 0 ? ` ${selectedNumbers.length} seat(s)` : ''}`}
+        </button>
+      )}
     </div>
   );
 };
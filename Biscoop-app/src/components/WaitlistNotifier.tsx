@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import './WaitlistNotifier.css';
+import { useNavigate } from 'react-router-dom';
+import { getCurrentUserId } from '../api/users';
+import { checkAvailability, getEntriesForUser, hasOffer, leaveWaitlist } from '../api/waitlist';
+import type { WaitlistEntry } from '../api/waitlist';
+import { formatCountdown } from '../utils/date-fromatter';
+
+// how often the shows the user is waiting for are looked at again
+const WAITLIST_CHECK_MS = 30000;
+
+// Looks for freed seats in the shows the user is waiting for
+async function checkWaitingShows(userId: string) {
+  const waiting = (await getEntriesForUser(userId)).filter((e) => !hasOffer(e));
+  await Promise.all(
+    waiting.map((e) => checkAvailability(e.showId, userId).catch(() => undefined))
+  );
+}
+
+// In-app notification for waitlist offers, shown on every page
+const WaitlistNotifier: React.FC = () => {
+  const navigate = useNavigate();
+  const [offers, setOffers] = useState<WaitlistEntry[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = async () => {
+      const userId = getCurrentUserId();
+      if (!userId) {
+        setOffers([]);
+        return;
+      }
+      try {
+        await checkWaitingShows(userId);
+        setOffers((await getEntriesForUser(userId)).filter(hasOffer));
+      } catch {
+        // tried again at the next check
+      }
+    };
+    refresh();
+    const checkInterval = setInterval(refresh, WAITLIST_CHECK_MS);
+    // the countdown, which also drops offers that ran out
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(checkInterval);
+      clearInterval(tick);
+    };
+  }, []);
+
+  const openOffers = offers.filter((o) => (o.offerExpiresAt ?? 0) > now);
+  if (openOffers.length === 0) return null;
+
+  const decline = async (offer: WaitlistEntry) => {
+    try {
+      await leaveWaitlist(offer);
+      setOffers((s) => s.filter((o) => o.id !== offer.id));
+    } catch {
+      alert('Could not decline the offer, please try again.');
+    }
+  };
+
+  return (
+    <div className="waitlist-notifier">
+      {openOffers.map((offer) => (
+        <div key={offer.id} className="waitlist-offer">
+          <span>
+            {offer.seats} seat(s) came free for <strong>{offer.label}</strong>.
+            Claim them within {formatCountdown((offer.offerExpiresAt ?? 0) - now)}.
+          </span>
+          <button type="button" onClick={() => navigate(`/screeningRoom/${offer.showId}`)}>Claim</button>
+          <button type="button" className="secondary" onClick={() => decline(offer)}>No thanks</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WaitlistNotifier;
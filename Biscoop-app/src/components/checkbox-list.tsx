@@ -0,0 +1,27 @@
+// Checkboxes for picking any number of options
+interface CheckboxListProps<T extends string | number> {
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+function CheckboxList<T extends string | number>({ options, selected, onChange }: CheckboxListProps<T>) {
+  return (
+    <div className="checkbox-list">
+      {options.map((option) => (
+        <label key={option.value}>
+          <input
+            type="checkbox"
+            checked={selected.includes(option.value)}
+            onChange={(e) =>
+              onChange(e.target.checked ? [...selected, option.value] : selected.filter((s) => s !== option.value))
+            }
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default CheckboxList;
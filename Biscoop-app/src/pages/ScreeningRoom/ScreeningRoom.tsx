@@ -1,16 +1,204 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import './screening-room.css';
 import Seats from '../../components/Seats';
+import TicketSelector, { PriceSummary } from './TicketSelector';
 import { getAppData } from "../../utils/storage";
-import { useParams } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
+import { fetchShowWithFilm, priceShow, toBookingShow } from './show-lookup';
+import type { ShowWithFilm } from './show-lookup';
+import { formatCountdown, formatDateForShowing, formatTime } from '../../utils/date-fromatter';
+import { filmStart } from '../../utils/scheduling';
+import { getReservedSeats, getSeatHolds, holdSeats, releaseHold } from '../../api/reservations';
+import type { SeatHolds } from '../../api/reservations';
+import { getCurrentUserId } from '../../api/users';
+import { getSeatsOfferedToOthers } from '../../api/waitlist';
+import { getPromotions } from '../../api/promotions';
+import type { Promotion } from '../../utils/promotions';
+import { countSeats, seatTypesOf } from '../../utils/seat-layout';
+import { NO_TICKETS, TICKET_TYPES, basePriceFor, ticketCount, ticketPrice } from '../../utils/pricing';
+import { useUserContext } from '../../context/UserContext';
+import type { TicketCounts, TicketType } from '../../utils/pricing';
+import type { CheckoutOrder } from '../checkout/Checkout';
+
+// how often seats taken or held by other customers are picked up while the map is open
+const RESERVED_SEATS_REFRESH_MS = 15000;
+
+const NO_HOLDS: SeatHolds = { heldByOthers: [] };
 
 const ScreeningRoom: React.FC = () => {
   const { fakeZalen } = getAppData();
-  const { zaalId } = useParams();
-  const zaal = fakeZalen.find((z) => z.id === zaalId) ?? fakeZalen[0];
+  const { showId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useUserContext();
+  const [showWithFilm, setShowWithFilm] = useState<ShowWithFilm>();
+  const [loading, setLoading] = useState(true);
+  const [reservedSeats, setReservedSeats] = useState<string[]>([]);
+  const [holds, setHolds] = useState<SeatHolds>(NO_HOLDS);
+  const [offeredToOthers, setOfferedToOthers] = useState(0);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [holdExpiresAt, setHoldExpiresAt] = useState<number | null>(null);
+  const [tickets, setTickets] = useState<TicketCounts>(NO_TICKETS);
+  const [ticketsChosen, setTicketsChosen] = useState(false);
+
+  useEffect(() => {
+    if (!showId) return;
+    fetchShowWithFilm(showId)
+      .then(setShowWithFilm)
+      .catch((error) => console.error("Failed to fetch show:", error))
+      .finally(() => setLoading(false));
+    getPromotions()
+      .then(setPromotions)
+      .catch(() => setPromotions([]));
+
+    const refreshReservedSeats = () => {
+      getReservedSeats(showId)
+        .then(setReservedSeats)
+        .catch(() => setReservedSeats([]));
+      getSeatHolds(showId)
+        .then(setHolds)
+        .catch(() => setHolds(NO_HOLDS));
+      getSeatsOfferedToOthers(showId, getCurrentUserId())
+        .then(setOfferedToOthers)
+        .catch(() => setOfferedToOthers(0));
+    };
+    refreshReservedSeats();
+    const interval = setInterval(refreshReservedSeats, RESERVED_SEATS_REFRESH_MS);
+    // other tabs booking through the stand-in
+    window.addEventListener('storage', refreshReservedSeats);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('storage', refreshReservedSeats);
+    };
+  }, [showId]);
+
+  // ticks the countdown, an expired hold is released by simply ignoring it
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const ownHold = holds.own && holds.own.expiresAt > now ? holds.own : undefined;
+  const heldByOthers = holds.heldByOthers;
+  const holdExpired = holdExpiresAt !== null && !ownHold && now >= holdExpiresAt;
+
+  const handleSelectionChange = async (seatNumbers: string[]) => {
+    if (!showId) return;
+
+    try {
+      if (seatNumbers.length === 0) {
+        await releaseHold(showId);
+        setHolds((current) => ({ ...current, own: undefined }));
+        setHoldExpiresAt(null);
+      } else {
+        const hold = await holdSeats(showId, seatNumbers);
+        setHolds((current) => ({ ...current, own: hold }));
+        setHoldExpiresAt(hold.expiresAt);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Seats could not be held.");
+      // someone else was quicker, show what is taken now
+      getSeatHolds(showId).then(setHolds).catch(() => {});
+      getReservedSeats(showId).then(setReservedSeats).catch(() => {});
+    }
+    setNow(Date.now());
+  };
+
+  const changeTickets = () => {
+    handleSelectionChange([]);
+    setTicketsChosen(false);
+  };
+
+  // the seats stay held while the user pays; the reservation is only made once the payment succeeds
+  const handleReserve = (seatNumbers: string[]) => {
+    if (!showId || !showWithFilm) return;
+
+    if (!getCurrentUserId()) {
+      alert("Please log in to reserve seats.");
+      navigate('/login');
+      return;
+    }
+
+    const order: CheckoutOrder = {
+      show: toBookingShow(showWithFilm),
+      seats: seatNumbers,
+      tickets,
+    };
+    navigate('/checkout', { state: order });
+  };
+
+  if (!showId) {
+    const zaal = fakeZalen[0];
+    return (
+      <div>
+        <h1 style={{ textAlign: 'center', color: '#fff', marginBottom: '16px' }}>{zaal.naam}</h1>
+        <Seats zaal={zaal} button={false} />
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <p style={{ textAlign: 'center', color: '#9ab0c9' }}>Loading show...</p>;
+  }
+
+  if (!showWithFilm) {
+    return <p style={{ textAlign: 'center', color: '#9ab0c9' }}>Show not found.</p>;
+  }
+
+  const { show, film } = showWithFilm;
+  const basePrice = basePriceFor(show.zaal, show.price);
+  const unitPrices = Object.fromEntries(
+    TICKET_TYPES.map(({ type }) => [type, ticketPrice(basePrice, type)])
+  ) as Record<TicketType, number>;
+  const selectedSeatTypes = seatTypesOf(show.zaal, ownHold?.seats ?? []);
+  // seats offered to people on the waitlist aren't for sale
+  const freeSeats = countSeats(show.zaal) - reservedSeats.length - heldByOthers.length - offeredToOthers;
+  // promotions for email domains only count for a verified address, as on the server
+  const verifiedEmail = user.emailVerified ? user.email : undefined;
+
   return (
     <div>
-      <h1 style={{ textAlign: 'center', color: '#fff', marginBottom: '16px' }}>{zaal.naam}</h1>
-       <Seats zaal={zaal} button={true}/>
+      <h1 style={{ textAlign: 'center', color: '#fff', marginBottom: '4px' }}>{film.name}</h1>
+      <p style={{ textAlign: 'center', color: '#9ab0c9', marginTop: 0 }}>
+        {show.zaal.naam} · {formatDateForShowing(show.start_date)} · film starts {formatTime(filmStart(show.start_date, show.preShowMinutes))}
+      </p>
+      {!ticketsChosen ? (
+        <>
+          <TicketSelector
+            tickets={tickets}
+            setTickets={setTickets}
+            unitPrices={unitPrices}
+            maxTickets={freeSeats}
+            onContinue={() => setTicketsChosen(true)}
+          />
+          {ticketCount(tickets) > 0 && <PriceSummary breakdown={priceShow(showWithFilm, promotions, tickets, [], verifiedEmail)} />}
+        </>
+      ) : (
+        <>
+          {ownHold && (
+            <p className="hold-countdown">
+              Seats {ownHold.seats.join(', ')} are held for you for {formatCountdown(ownHold.expiresAt - now)}
+            </p>
+          )}
+          {holdExpired && (
+            <p className="hold-countdown">Your hold expired and the seats were released. Please select them again.</p>
+          )}
+          <Seats
+            zaal={show.zaal}
+            button={true}
+            reservedSeats={reservedSeats}
+            heldSeats={heldByOthers}
+            selectedSeats={ownHold?.seats ?? []}
+            onSelectionChange={handleSelectionChange}
+            onReserve={handleReserve}
+            seatCount={ticketCount(tickets)}
+          />
+          <PriceSummary breakdown={priceShow(showWithFilm, promotions, tickets, selectedSeatTypes, verifiedEmail)} />
+          <div className="ticket-actions">
+            <button type="button" className="button2" onClick={changeTickets}>Change tickets</button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
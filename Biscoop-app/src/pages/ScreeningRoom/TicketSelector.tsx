@@ -0,0 +1,63 @@
+import React from 'react';
+import { TICKET_TYPES, formatPrice, ticketCount } from '../../utils/pricing';
+import type { PriceBreakdown, TicketCounts, TicketType } from '../../utils/pricing';
+
+interface TicketSelectorProps {
+  tickets: TicketCounts;
+  setTickets: (tickets: TicketCounts) => void;
+  // price of a single ticket of every type, for this show
+  unitPrices: Record<TicketType, number>;
+  // free seats left in the show
+  maxTickets: number;
+  onContinue: () => void;
+}
+
+const TicketSelector: React.FC<TicketSelectorProps> = ({ tickets, setTickets, unitPrices, maxTickets, onContinue }) => {
+  const count = ticketCount(tickets);
+
+  const change = (type: TicketType, delta: number) => {
+    const next = Math.max(0, tickets[type] + delta);
+    if (delta > 0 && count >= maxTickets) return;
+    setTickets({ ...tickets, [type]: next });
+  };
+
+  return (
+    <div className="screening-room-container ticket-selector">
+      <h2 className="main-title">How many tickets?</h2>
+      {TICKET_TYPES.map(({ type, label }) => (
+        <div key={type} className="ticket-row">
+          <span className="ticket-label">{label}</span>
+          <span className="ticket-price">{formatPrice(unitPrices[type])}</span>
+          <button type="button" className="button2" onClick={() => change(type, -1)} disabled={tickets[type] === 0}>-</button>
+          <span className="ticket-count">{tickets[type]}</span>
+          <button type="button" className="button2" onClick={() => change(type, 1)} disabled={count >= maxTickets}>+</button>
+        </div>
+      ))}
+      {count >= maxTickets && <p className="hold-countdown">Only {maxTickets} seat(s) left for this show.</p>}
+      <button type="button" className="button2" disabled={count === 0} onClick={onContinue}>
+        Choose {count > 0 ? `${count} seat(s)` : 'seats'}
+      </button>
+    </div>
+  );
+};
+
+// itemised total, shown under the seat map
+export const PriceSummary: React.FC<{ breakdown: PriceBreakdown }> = ({ breakdown }) => (
+  <div className="price-summary">
+    {breakdown.lines.map((line) => (
+      <React.Fragment key={line.label}>
+        <div className="price-line">
+          <span>{line.quantity > 1 ? `${line.quantity} × ${line.label}` : line.label}</span>
+          <span>{formatPrice(line.amount)}</span>
+        </div>
+        {line.note && <div className="price-note">{line.note}</div>}
+      </React.Fragment>
+    ))}
+    <div className="price-line price-total">
+      <span>Total</span>
+      <span>{formatPrice(breakdown.total)}</span>
+    </div>
+  </div>
+);
+
+export default TicketSelector;
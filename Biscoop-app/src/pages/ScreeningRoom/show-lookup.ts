@@ -0,0 +1,79 @@
+import { getAppData } from "../../utils/storage";
+import type { MoviePropFull } from '../movie-list/movie-list';
+import type { ShowProp, ZaalProp } from '../../utils/fake-data';
+import type { BookingShow } from '../../api/reservations';
+import { mapFilmShows } from '../../api/shows';
+import type { ShowWithZaalDTO } from '../../api/shows';
+import { basePriceFor, priceTickets } from '../../utils/pricing';
+import type { PriceBreakdown, TicketCounts } from '../../utils/pricing';
+import { applyPromotions } from '../../utils/promotions';
+import type { Promotion } from '../../utils/promotions';
+import type { SeatCellType } from '../../utils/seat-layout';
+import { toLocalDateTime } from '../../utils/date-fromatter';
+
+export interface ShowWithFilm {
+  show: ShowProp & { zaal: ZaalProp };
+  film: MoviePropFull;
+}
+
+export function toBookingShow({ show, film }: ShowWithFilm): BookingShow {
+  return {
+    id: show.id,
+    filmId: film.id,
+    roomId: show.zaal.id,
+    begintijd: toLocalDateTime(show.start_date),
+    eindtijd: toLocalDateTime(show.end_date),
+    film: { id: film.id, name: film.name, duration: film.duration, rating: film.rating, genre: film.genre },
+    zaal: { ...show.zaal },
+  };
+}
+
+// without the server, use the session's fake data
+function fakeShowsWithFilm(): ShowWithFilm[] {
+  const { fakeMovies, fakeShows, fakeZalen, fakeReviews } = getAppData();
+  return fakeShows.flatMap((fakeShow) => {
+    const movie = fakeMovies.find((m) => m.id === fakeShow.movieId);
+    const zaal = fakeZalen.find((z) => z.id === fakeShow.zaalId);
+    if (!movie || !zaal) return [];
+
+    const show = { ...fakeShow, zaal };
+    return [{ show, film: { ...movie, shows: [show], reviews: fakeReviews.filter((r) => r.movieId === movie.id) } }];
+  });
+}
+
+// the shows (with their zaal) only come along with the full film list
+export async function fetchShowsWithFilm(): Promise<ShowWithFilm[]> {
+  let films: MoviePropFull[];
+  try {
+    const response = await fetch("http://localhost:5275/api/Films/GetAllFull");
+    const data: (Omit<MoviePropFull, 'shows'> & { shows: ShowWithZaalDTO[] })[] = await response.json();
+    films = data.map(mapFilmShows);
+  } catch {
+    return fakeShowsWithFilm();
+  }
+  return films.flatMap((film) => film.shows.map((show) => ({ show, film })));
+}
+
+export async function fetchShowWithFilm(showId: string): Promise<ShowWithFilm | undefined> {
+  return (await fetchShowsWithFilm()).find(({ show }) => show.id === showId);
+}
+
+// The price of tickets for a show, with the best running promotion taken off
+export function priceShow(
+  { show, film }: ShowWithFilm,
+  promotions: Promotion[],
+  tickets: TicketCounts,
+  seatTypes: SeatCellType[] = [],
+  email?: string
+): PriceBreakdown {
+  const basePrice = basePriceFor(show.zaal, show.price);
+  return applyPromotions(priceTickets(basePrice, show.start_date, tickets, seatTypes), promotions, {
+    start: show.start_date,
+    filmId: film.id,
+    genre: film.genre,
+    roomId: show.zaal.id,
+    tickets,
+    basePrice,
+    email,
+  });
+}
@@ -0,0 +1,335 @@
+import { useEffect, useState } from "react";
+import GenericSelect from "../../components/generic-select";
+import CheckboxList from "../../components/checkbox-list";
+import { deletePromotion, getPromotions, savePromotion } from "../../api/promotions";
+import { NO_CONDITIONS, WEEKDAYS, describeEffect, isRunning } from "../../utils/promotions";
+import type { Promotion, PromotionConditions, PromotionEffect } from "../../utils/promotions";
+import { TICKET_TYPES } from "../../utils/pricing";
+import type { MovieProp, ZaalProp } from "../../utils/fake-data";
+import { getAppData } from "../../utils/storage";
+import "./promotion-panel.css";
+
+const emptyPromotion: Promotion = {
+    id: "",
+    name: "",
+    description: "",
+    active: true,
+    conditions: NO_CONDITIONS,
+    effect: { kind: "percentage", percent: 10 },
+};
+
+// the films and rooms a promotion can be limited to
+async function loadFilmsAndRooms(): Promise<{ films: MovieProp[]; rooms: ZaalProp[] }> {
+    try {
+        const [films, rooms] = await Promise.all([
+            fetch("http://localhost:5275/api/Films/GetAll").then((r) => r.json()),
+            fetch("http://localhost:5275/api/Rooms/GetAll").then((r) => r.json()),
+        ]);
+        return { films, rooms };
+    } catch {
+        const { fakeMovies, fakeZalen } = getAppData();
+        return { films: fakeMovies, rooms: fakeZalen };
+    }
+}
+
+// yyyy-mm-dd in local time, for date inputs
+function toDateInput(iso?: string): string {
+    if (!iso) return "";
+    const d = new Date(iso);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function fromDateInput(value: string, time: string): string | undefined {
+    return value ? new Date(`${value}T${time}`).toISOString() : undefined;
+}
+
+function promotionStatus(promotion: Promotion): string {
+    const now = new Date();
+    if (!promotion.active) return "Inactive";
+    if (isRunning(promotion, now)) return "Running";
+    return promotion.startsAt && new Date(promotion.startsAt) > now ? "Scheduled" : "Ended";
+}
+
+function Promotion_panel() {
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [selectedPromotion, setSelectedPromotion] = useState<Promotion>(emptyPromotion);
+    // typed as text, so commas can be typed
+    const [emailDomains, setEmailDomains] = useState("");
+    const [films, setFilms] = useState<MovieProp[]>([]);
+    const [rooms, setRooms] = useState<ZaalProp[]>([]);
+
+    useEffect(() => {
+        getPromotions()
+            .then(setPromotions)
+            .catch((error) => console.error("Failed to fetch promotions:", error));
+        loadFilmsAndRooms().then(({ films, rooms }) => {
+            setFilms(films);
+            setRooms(rooms);
+        });
+    }, []);
+
+    useEffect(() => {
+        setEmailDomains(selectedPromotion.conditions.emailDomains.join(", "));
+    }, [selectedPromotion.id, selectedPromotion.conditions.emailDomains]);
+
+    const setConditions = (changes: Partial<PromotionConditions>) =>
+        setSelectedPromotion({ ...selectedPromotion, conditions: { ...selectedPromotion.conditions, ...changes } });
+
+    const setEffect = (effect: PromotionEffect) => setSelectedPromotion({ ...selectedPromotion, effect });
+
+    const genres = [...new Set(films.map((f) => f.genre).filter(Boolean))].sort();
+    const { conditions, effect } = selectedPromotion;
+
+    const handleSave = async () => {
+        if (selectedPromotion.name.trim() === "") {
+            alert("Please enter a name.");
+            return;
+        }
+        if (selectedPromotion.endsAt && selectedPromotion.startsAt && selectedPromotion.endsAt < selectedPromotion.startsAt) {
+            alert("The promotion has to start before it ends.");
+            return;
+        }
+
+        try {
+            const saved = await savePromotion({
+                ...selectedPromotion,
+                conditions: {
+                    ...conditions,
+                    emailDomains: emailDomains.split(",").map((d) => d.trim().replace(/^@/, "")).filter(Boolean),
+                },
+            });
+            setPromotions(await getPromotions());
+            setSelectedPromotion(saved);
+            alert("Promotion saved.");
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Promotion not saved, something went wrong.");
+        }
+    };
+
+    const handleDelete = async () => {
+        if (selectedPromotion.id === "") {
+            alert("Please select a promotion.");
+            return;
+        }
+        try {
+            await deletePromotion(selectedPromotion.id);
+            setPromotions((current) => current.filter((p) => p.id !== selectedPromotion.id));
+            setSelectedPromotion(emptyPromotion);
+        } catch {
+            alert("Promotion not deleted, something went wrong.");
+        }
+    };
+
+    return (
+        <div className="movie-panel-container">
+            <div className="movie-preview-side">
+                <div className="top"><h1>Promotions</h1></div>
+                <table className="promotion-table">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Effect</th>
+                            <th>Runs</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {promotions.map((p) => (
+                            <tr
+                                key={p.id}
+                                className={p.id === selectedPromotion.id ? "selected" : ""}
+                                onClick={() => setSelectedPromotion(p)}
+                            >
+                                <td>{p.name}</td>
+                                <td>{describeEffect(p.effect)}</td>
+                                <td>{toDateInput(p.startsAt) || "now"} – {toDateInput(p.endsAt) || "open"}</td>
+                                <td>{promotionStatus(p)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {promotions.length === 0 && <p>No promotions yet.</p>}
+            </div>
+
+            <div className="movie-form-side">
+                <div className="form-top">
+                    <h2>{selectedPromotion.id !== "" ? "Edit promotion" : "Add promotion"}</h2>
+
+                    <div className="form-group">
+                        <label>Name:</label>
+                        <input
+                            type="text"
+                            value={selectedPromotion.name}
+                            onChange={(e) => setSelectedPromotion({ ...selectedPromotion, name: e.target.value })}
+                            placeholder="e.g. 2-for-1 Tuesdays"
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Shown to customers as:</label>
+                        <input
+                            type="text"
+                            value={selectedPromotion.description}
+                            onChange={(e) => setSelectedPromotion({ ...selectedPromotion, description: e.target.value })}
+                            placeholder="e.g. Every Tuesday the second ticket is free"
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>
+                            <input
+                                type="checkbox"
+                                checked={selectedPromotion.active}
+                                onChange={(e) => setSelectedPromotion({ ...selectedPromotion, active: e.target.checked })}
+                            />
+                            {" "}Active
+                        </label>
+                    </div>
+
+                    <div className="form-group form-row">
+                        <div>
+                            <label>Runs from:</label>
+                            <input
+                                type="date"
+                                value={toDateInput(selectedPromotion.startsAt)}
+                                onChange={(e) => setSelectedPromotion({ ...selectedPromotion, startsAt: fromDateInput(e.target.value, "00:00:00") })}
+                            />
+                        </div>
+                        <div>
+                            <label>Until:</label>
+                            <input
+                                type="date"
+                                value={toDateInput(selectedPromotion.endsAt)}
+                                onChange={(e) => setSelectedPromotion({ ...selectedPromotion, endsAt: fromDateInput(e.target.value, "23:59:59") })}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label>Effect:</label>
+                        <div className="form-row">
+                            <select
+                                value={effect.kind}
+                                onChange={(e) => {
+                                    const kind = e.target.value as PromotionEffect["kind"];
+                                    if (kind === "percentage") setEffect({ kind, percent: 10 });
+                                    if (kind === "fixed") setEffect({ kind, amount: 200 });
+                                    if (kind === "free-ticket") setEffect({ kind, every: 2 });
+                                }}
+                            >
+                                <option value="percentage">Percentage off the tickets</option>
+                                <option value="fixed">Fixed amount off the order</option>
+                                <option value="free-ticket">Free ticket (x-for-y)</option>
+                            </select>
+                            {effect.kind === "percentage" && (
+                                <input
+                                    type="number"
+                                    value={effect.percent || ""}
+                                    onChange={(e) => setEffect({ kind: "percentage", percent: Math.min(Number(e.target.value), 100) })}
+                                    min={1}
+                                    max={100}
+                                    title="Percent"
+                                />
+                            )}
+                            {effect.kind === "fixed" && (
+                                <input
+                                    type="number"
+                                    value={effect.amount / 100 || ""}
+                                    onChange={(e) => setEffect({ kind: "fixed", amount: Math.round(Number(e.target.value) * 100) })}
+                                    min={0}
+                                    step={0.5}
+                                    title="Euro"
+                                />
+                            )}
+                            {effect.kind === "free-ticket" && (
+                                <input
+                                    type="number"
+                                    value={effect.every || ""}
+                                    onChange={(e) => setEffect({ kind: "free-ticket", every: Math.max(Number(e.target.value), 2) })}
+                                    min={2}
+                                    title="Every how many tickets one is free"
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    <h3>Conditions (leave empty for any)</h3>
+
+                    <div className="form-group">
+                        <label>Days of the show:</label>
+                        <CheckboxList
+                            options={WEEKDAYS.map((day, i) => ({ value: i, label: day.slice(0, 3) }))}
+                            selected={conditions.weekdays}
+                            onChange={(weekdays) => setConditions({ weekdays })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Genres:</label>
+                        <CheckboxList
+                            options={genres.map((g) => ({ value: g, label: g }))}
+                            selected={conditions.genres}
+                            onChange={(genres) => setConditions({ genres })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Films:</label>
+                        <CheckboxList
+                            options={films.map((f) => ({ value: f.id, label: f.name }))}
+                            selected={conditions.filmIds}
+                            onChange={(filmIds) => setConditions({ filmIds })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Rooms:</label>
+                        <CheckboxList
+                            options={rooms.map((z) => ({ value: z.id, label: z.naam }))}
+                            selected={conditions.roomIds}
+                            onChange={(roomIds) => setConditions({ roomIds })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Ticket types:</label>
+                        <CheckboxList
+                            options={TICKET_TYPES.map(({ type, label }) => ({ value: type, label }))}
+                            selected={conditions.ticketTypes}
+                            onChange={(ticketTypes) => setConditions({ ticketTypes })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Customer email domains (not verified):</label>
+                        <input
+                            type="text"
+                            value={emailDomains}
+                            onChange={(e) => setEmailDomains(e.target.value)}
+                            placeholder="e.g. student.hr.nl, uu.nl"
+                        />
+                    </div>
+
+                    <button className="save-button" onClick={handleSave}>Save promotion</button>
+                </div>
+
+                <div className="form-bottom">
+                    <GenericSelect<Promotion>
+                        title="Select a promotion"
+                        items={promotions}
+                        selectedItem={selectedPromotion}
+                        setSelectedItem={setSelectedPromotion}
+                        Label={(p) => p.name}
+                        emptyItem={emptyPromotion}
+                    />
+
+                    <button className="delete-button" onClick={handleDelete}>
+                        Delete promotion
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default Promotion_panel;
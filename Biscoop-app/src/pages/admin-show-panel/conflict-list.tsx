@@ -0,0 +1,42 @@
+import type { ShowProp } from "../../utils/fake-data";
+import type { ScheduleConflict } from "../../utils/scheduling";
+
+interface ConflictListProps {
+    conflicts: ScheduleConflict[];
+    // e.g. "Dune - Zaal 1 - 19/10/2026 - 20:00"
+    describeShow: (show: ShowProp) => string;
+    onOpenShow: (show: ShowProp) => void;
+    // only offered when there are warnings and no errors
+    onSaveAnyway?: () => void;
+}
+
+const ConflictList: React.FC<ConflictListProps> = ({ conflicts, describeShow, onOpenShow, onSaveAnyway }) => {
+    if (conflicts.length === 0) return null;
+    const blocking = conflicts.some((c) => c.severity === "error");
+
+    return (
+        <div className={`conflict-list ${blocking ? "blocking" : ""}`}>
+            <strong>{blocking ? "This show can't be planned:" : "Please check before saving:"}</strong>
+            <ul>
+                {conflicts.map((conflict, i) => (
+                    <li key={i} className={conflict.severity}>
+                        {conflict.message}
+                        {conflict.other && (
+                            <>
+                                {" "}
+                                <button type="button" className="conflict-link" onClick={() => onOpenShow(conflict.other!)}>
+                                    {describeShow(conflict.other)}
+                                </button>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {!blocking && onSaveAnyway && (
+                <button type="button" className="save-button" onClick={onSaveAnyway}>Save anyway</button>
+            )}
+        </div>
+    );
+};
+
+export default ConflictList;
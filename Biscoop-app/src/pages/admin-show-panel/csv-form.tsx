@@ -0,0 +1,134 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import type { MovieProp, ShowProp, ZaalProp } from "../../utils/fake-data";
+import { CSV_COLUMNS, checkImport, downloadCsv, exportScheduleCsv } from "../../utils/schedule-csv";
+import type { ImportRow } from "../../utils/schedule-csv";
+import { dateKey } from "../../utils/show-series";
+import { saveShow } from "../../api/shows";
+
+interface CsvFormProps {
+    movies: MovieProp[];
+    rooms: ZaalProp[];
+    shows: ShowProp[];
+    // the export range starts as the week in the timeline
+    weekStart: Date;
+    describeShow: (show: ShowProp) => string;
+    onImported: (saved: ShowProp[]) => void;
+}
+
+function CsvForm({ movies, rooms, shows, weekStart, describeShow, onImported }: CsvFormProps) {
+    const [from, setFrom] = useState(() => dateKey(weekStart));
+    const [until, setUntil] = useState(() => {
+        const end = new Date(weekStart);
+        end.setDate(end.getDate() + 6);
+        return dateKey(end);
+    });
+    const [fileName, setFileName] = useState("");
+    const [report, setReport] = useState<ImportRow[]>([]);
+    const [importing, setImporting] = useState(false);
+
+    const valid = report.filter((r) => r.show);
+    const withWarnings = valid.filter((r) => r.conflicts.length > 0).length;
+
+    const handleExport = () => {
+        if (from === "" || until === "" || from > until) {
+            alert("Please choose a from date before the until date.");
+            return;
+        }
+        downloadCsv(exportScheduleCsv(shows, movies, rooms, from, until), `schedule-${from}-${until}.csv`);
+    };
+
+    // Reading the file only checks it, nothing is saved until the rows are imported
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        setFileName(file.name);
+        setReport(checkImport(await file.text(), movies, rooms, shows));
+    };
+
+    const handleImport = async () => {
+        if (valid.length === 0) {
+            alert("There are no rows that can be imported.");
+            return;
+        }
+        if (withWarnings > 0 && !confirm(`${withWarnings} shows are outside opening hours. Import anyway?`)) return;
+
+        setImporting(true);
+        const saved: ShowProp[] = [];
+        const failed: ImportRow[] = [];
+        for (const row of valid) {
+            try {
+                saved.push(await saveShow(row.show!));
+            } catch (err) {
+                failed.push({ ...row, show: undefined, problems: [err instanceof Error ? err.message : "Not saved, something went wrong"] });
+            }
+        }
+        onImported(saved);
+        // what's left is what still needs attention: the rows that failed and the ones that were never valid
+        setReport([...report.filter((r) => !r.show), ...failed].sort((a, b) => a.line - b.line));
+        setImporting(false);
+        alert(failed.length > 0 ? `${saved.length} shows imported, ${failed.length} failed.` : `${saved.length} shows imported!`);
+    };
+
+    return (
+        <div className="form-top">
+            <h2>Export the schedule</h2>
+            <div className="form-group series-range">
+                <div>
+                    <label>From:</label>
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div>
+                    <label>Until:</label>
+                    <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+                </div>
+            </div>
+            <button className="save-button" onClick={handleExport}>Export CSV</button>
+
+            <h2>Import shows</h2>
+            <p className="planner-hint">
+                One show per line: {CSV_COLUMNS.join(", ")}. Films and rooms by name, dates as yyyy-mm-dd HH:mm.
+                The file is checked first, nothing is saved until you import.
+            </p>
+            <div className="form-group">
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} disabled={importing} />
+            </div>
+
+            {report.length > 0 && (
+                <div className="series-preview">
+                    <h3>
+                        {fileName}: {valid.length} of {report.length} rows can be imported
+                    </h3>
+                    <ul>
+                        {report.map((row) => (
+                            <li key={row.line} className={!row.show ? "error" : row.conflicts.length > 0 ? "warning" : ""}>
+                                <span>
+                                    Line {row.line}:{" "}
+                                    {row.show ? describeShow(row.show) : row.cells.join(", ")}
+                                </span>
+                                {row.problems.map((p, i) => <small key={i}>{p}</small>)}
+                                {row.conflicts.map((c, i) => (
+                                    <small key={i}>{c.message}{c.other && ` ${describeShow(c.other)}`}</small>
+                                ))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {valid.length > 0 && (
+                <div className="series-actions">
+                    <div>
+                        <button onClick={handleImport} disabled={importing}>
+                            Import {valid.length} shows{valid.length < report.length && ", skip the rest"}
+                        </button>
+                        <button onClick={() => setReport([])} disabled={importing}>Discard</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default CsvForm;
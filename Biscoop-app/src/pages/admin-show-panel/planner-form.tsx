@@ -0,0 +1,124 @@
+import { useState } from "react";
+import type { MovieProp, ShowProp, ZaalProp } from "../../utils/fake-data";
+import { SCHEDULING_RULES, findConflicts, hasErrors } from "../../utils/scheduling";
+import { PLANNER_RULES, isAgeRestricted, planWeek } from "../../utils/planner";
+import type { WeekPlan } from "../../utils/planner";
+
+interface PlannerFormProps {
+    movies: MovieProp[];
+    rooms: ZaalProp[];
+    shows: ShowProp[];
+    // the week in the timeline is the week that gets planned
+    weekStart: Date;
+    drafts: ShowProp[];
+    setDrafts: (drafts: ShowProp[]) => void;
+    onCommit: () => void;
+    committing: boolean;
+}
+
+const dayAndTime = (date: Date | string) =>
+    new Date(date).toLocaleString("en-GB", { weekday: "short", hour: "2-digit", minute: "2-digit" });
+
+function PlannerForm({ movies, rooms, shows, weekStart, drafts, setDrafts, onCommit, committing }: PlannerFormProps) {
+    // screenings per film for the week, films without any aren't running
+    const [targets, setTargets] = useState<Record<string, number>>({});
+    const [shortfalls, setShortfalls] = useState<WeekPlan["shortfalls"]>([]);
+
+    const filmName = (movieId: string) => movies.find((m) => m.id === movieId)?.name ?? "N/A";
+    const roomName = (zaalId: string) => rooms.find((z) => z.id === zaalId)?.naam ?? "N/A";
+
+    const handlePlan = () => {
+        const wanted = Object.entries(targets).map(([movieId, screenings]) => ({ movieId, screenings }));
+        if (!wanted.some((t) => t.screenings > 0)) {
+            alert("Enter how many screenings at least one film should get.");
+            return;
+        }
+        if (drafts.length > 0 && !confirm("Replace the current proposal?")) return;
+
+        const plan = planWeek(weekStart, wanted, movies, rooms, shows);
+        setDrafts(plan.shows.map((show, i) => ({ ...show, id: `draft-${i + 1}` })));
+        setShortfalls(plan.shortfalls);
+    };
+
+    const handleDiscard = () => {
+        setDrafts([]);
+        setShortfalls([]);
+    };
+
+    return (
+        <div className="form-top">
+            <h2>Plan the week of {weekStart.toLocaleDateString("en-GB", { day: "numeric", month: "long" })}</h2>
+            <p className="planner-hint">
+                Popular films (most screenings) get the big rooms and prime time ({PLANNER_RULES.primeTimeStart} - {PLANNER_RULES.primeTimeEnd}).
+                Films above {PLANNER_RULES.familyAgeLimit} are kept out of family slots (before {PLANNER_RULES.familySlotsUntil}).
+                Shows already in the programme stay where they are.
+            </p>
+
+            <div className="planner-targets">
+                {movies.map((m) => (
+                    <label key={m.id}>
+                        <span>
+                            {m.name} <small>({m.duration} min, {m.rating || "no rating"}{isAgeRestricted(m) && ", no family slots"})</small>
+                        </span>
+                        <input
+                            type="number"
+                            value={targets[m.id] || ""}
+                            onChange={(e) => setTargets({ ...targets, [m.id]: Math.max(Number(e.target.value), 0) })}
+                            min={0}
+                            placeholder="0"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            <button className="save-button" onClick={handlePlan}>Suggest schedule</button>
+
+            {shortfalls.length > 0 && (
+                <div className="conflict-list">
+                    <strong>Not everything fits:</strong>
+                    <ul>
+                        {shortfalls.map((s) => (
+                            <li key={s.movieId} className="warning">
+                                {filmName(s.movieId)}: {s.planned} of {s.target} screenings
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {drafts.length > 0 && (
+                <div className="series-preview">
+                    <h3>Proposal: {drafts.length} shows</h3>
+                    <p className="planner-hint">Drag the shows in the timeline to change them.</p>
+                    <ul>
+                        {[...drafts]
+                            .sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime())
+                            .map((draft) => {
+                                const conflicts = findConflicts(draft, [...shows, ...drafts], SCHEDULING_RULES, rooms.find((z) => z.id === draft.zaalId));
+                                return (
+                                    <li key={draft.id} className={hasErrors(conflicts) ? "error" : conflicts.length > 0 ? "warning" : ""}>
+                                        <span>{dayAndTime(draft.start_date)} {filmName(draft.movieId)} - {roomName(draft.zaalId)}</span>{" "}
+                                        <button className="conflict-link" onClick={() => setDrafts(drafts.filter((d) => d !== draft))}>
+                                            Remove
+                                        </button>
+                                        {conflicts.map((c, i) => <small key={i}>{c.message}</small>)}
+                                    </li>
+                                );
+                            })}
+                    </ul>
+                </div>
+            )}
+
+            {drafts.length > 0 && (
+                <div className="series-actions">
+                    <div>
+                        <button onClick={onCommit} disabled={committing}>Commit schedule</button>
+                        <button onClick={handleDiscard} disabled={committing}>Discard</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default PlannerForm;
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import CheckboxList from "../../components/checkbox-list";
+import type { MovieProp, ShowProp, ZaalProp } from "../../utils/fake-data";
+import { formatDateForShowing } from "../../utils/date-fromatter";
+import { hasErrors, showMinutes } from "../../utils/scheduling";
+import { WEEKDAYS } from "../../utils/promotions";
+import { dateKey, keepExistingIds, MAX_SERIES_SHOWS, previewSeries, seriesShows } from "../../utils/show-series";
+import type { ShowSeries } from "../../utils/show-series";
+import { saveSeries } from "../../api/shows";
+
+export interface EditedSeries {
+    seriesId: string;
+    series: ShowSeries;
+    // its upcoming shows, the ones the edit replaces
+    shows: ShowProp[];
+}
+
+interface SeriesFormProps {
+    movies: MovieProp[];
+    rooms: ZaalProp[];
+    shows: ShowProp[];
+    // left out for a new series
+    edited?: EditedSeries;
+    describeShow: (show: ShowProp) => string;
+    onSaved: (saved: ShowProp[], seriesId: string) => void;
+}
+
+function newSeries(): ShowSeries {
+    const until = new Date();
+    until.setDate(until.getDate() + 20);
+    return {
+        movieId: "",
+        zaalId: "",
+        times: ["19:30"],
+        weekdays: [0, 1, 2, 3, 4, 5, 6],
+        from: dateKey(new Date()),
+        until: dateKey(until),
+        exceptions: [],
+    };
+}
+
+function SeriesForm({ movies, rooms, shows, edited, describeShow, onSaved }: SeriesFormProps) {
+    const [series, setSeries] = useState<ShowSeries>(edited?.series ?? newSeries());
+    const [time, setTime] = useState("");
+    const [exception, setException] = useState("");
+    const [price, setPrice] = useState(edited?.series.price?.toString() ?? "");
+    const [saving, setSaving] = useState(false);
+
+    const movie = movies.find((m) => m.id === series.movieId);
+    const planned = movie && series.zaalId
+        ? keepExistingIds(
+            seriesShows({ ...series, price: price === "" ? undefined : Number(price) }, showMinutes(movie.duration)),
+            edited?.shows ?? [],
+            movie.duration,
+            edited?.series.price,
+        )
+        : [];
+    const tooLong = planned.length > MAX_SERIES_SHOWS;
+    const preview = previewSeries(planned, shows, edited?.seriesId, rooms.find((z) => z.id === series.zaalId));
+    const clashing = preview.filter((o) => hasErrors(o.conflicts)).length;
+    const cancelled = (edited?.shows ?? []).filter((s) => !planned.some((p) => p.id === s.id));
+
+    const update = (changes: Partial<ShowSeries>) => setSeries({ ...series, ...changes });
+
+    const addTime = () => {
+        if (time && !series.times.includes(time)) update({ times: [...series.times, time].sort() });
+        setTime("");
+    };
+
+    const addException = (day: string) => {
+        if (day && !series.exceptions.includes(day)) update({ exceptions: [...series.exceptions, day].sort() });
+        setException("");
+    };
+
+    const handleSave = async () => {
+        if (!movie || series.zaalId === "") {
+            alert("Please select a movie and a room.");
+            return;
+        }
+        if (planned.length === 0) {
+            alert("This series has no upcoming shows.");
+            return;
+        }
+        if (tooLong) {
+            alert(`A series has at most ${MAX_SERIES_SHOWS} shows. Shorten the period or take out times or days.`);
+            return;
+        }
+        if (clashing > 0) {
+            alert(`${clashing} shows clash with the programme. Skip those days or change the times.`);
+            return;
+        }
+        const warnings = preview.filter((o) => o.conflicts.length > 0).length;
+        if (warnings > 0 && !confirm(`${warnings} shows are outside opening hours. Save anyway?`)) return;
+        if (cancelled.length > 0 && !confirm(`${cancelled.length} shows of this series will be cancelled. Continue?`)) return;
+
+        setSaving(true);
+        try {
+            const saved = await saveSeries(planned, edited?.seriesId);
+            onSaved(saved, saved[0]?.seriesId ?? edited?.seriesId ?? "");
+            alert(`Series saved: ${saved.length} shows.`);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Series not saved, something went wrong.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="form-top">
+            <h2>{edited ? "Edit series" : "Add a series of shows"}</h2>
+
+            <div className="form-group">
+                <label>Movie:</label>
+                <select value={series.movieId} onChange={(e) => update({ movieId: e.target.value })}>
+                    <option value="">-- Select --</option>
+                    {movies.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+            </div>
+
+            <div className="form-group">
+                <label>Room:</label>
+                <select value={series.zaalId} onChange={(e) => update({ zaalId: e.target.value })}>
+                    <option value="">-- Select --</option>
+                    {rooms.map((z) => <option key={z.id} value={z.id}>{z.naam}</option>)}
+                </select>
+            </div>
+
+            <div className="form-group">
+                <label>Times:</label>
+                <div className="series-chips">
+                    {series.times.map((t) => (
+                        <button key={t} className="series-chip" onClick={() => update({ times: series.times.filter((x) => x !== t) })} title="Remove">
+                            {t} ✕
+                        </button>
+                    ))}
+                </div>
+                <div className="series-add">
+                    <input type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+                    <button onClick={addTime}>Add time</button>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label>Days:</label>
+                <CheckboxList
+                    options={WEEKDAYS.map((day, i) => ({ value: i, label: day.slice(0, 3) }))}
+                    selected={series.weekdays}
+                    onChange={(weekdays) => update({ weekdays })}
+                />
+            </div>
+
+            <div className="form-group series-range">
+                <div>
+                    <label>From:</label>
+                    <input type="date" value={series.from} onChange={(e) => update({ from: e.target.value })} />
+                </div>
+                <div>
+                    <label>Until:</label>
+                    <input type="date" value={series.until} onChange={(e) => update({ until: e.target.value })} />
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label>No shows on:</label>
+                <div className="series-chips">
+                    {series.exceptions.map((d) => (
+                        <button key={d} className="series-chip" onClick={() => update({ exceptions: series.exceptions.filter((x) => x !== d) })} title="Remove">
+                            {new Date(`${d}T00:00`).toLocaleDateString("en-GB")} ✕
+                        </button>
+                    ))}
+                </div>
+                <div className="series-add">
+                    <input type="date" value={exception} onChange={(e) => setException(e.target.value)} />
+                    <button onClick={() => addException(exception)}>Add day</button>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label>ticket price (€):</label>
+                <input
+                    type="number"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder="Room price"
+                    min={0}
+                    step={0.5}
+                />
+            </div>
+
+            <div className="series-preview">
+                <h3>
+                    {tooLong ? `More than ${MAX_SERIES_SHOWS}` : planned.length} shows{clashing > 0 && `, ${clashing} clashing`}
+                    {cancelled.length > 0 && `, ${cancelled.length} cancelled`}
+                </h3>
+                {tooLong && <p>A series has at most {MAX_SERIES_SHOWS} shows, this one can't be saved. Shorten the period or take out times or days.</p>}
+                <ul>
+                    {preview.map(({ show, conflicts }, i) => (
+                        <li key={i} className={hasErrors(conflicts) ? "error" : conflicts.length > 0 ? "warning" : ""}>
+                            <span>
+                                {formatDateForShowing(show.start_date)}
+                                {show.id && " (existing)"}
+                            </span>
+                            {conflicts.map((c, j) => (
+                                <small key={j}>{c.message}{c.other && ` ${describeShow(c.other)}`}</small>
+                            ))}
+                            {conflicts.length > 0 && (
+                                <button className="conflict-link" onClick={() => addException(dateKey(show.start_date))}>
+                                    Skip this day
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <button className="save-button" onClick={handleSave} disabled={saving}>
+                {edited ? "Update series" : "Save series"}
+            </button>
+        </div>
+    );
+}
+
+export default SeriesForm;
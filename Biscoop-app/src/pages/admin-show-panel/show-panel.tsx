@@ -1,17 +1,61 @@
-import { useState } from "react";
-import { formatDateForShowing } from "../../utils/date-fromatter";
+import { useEffect, useState } from "react";
+import { formatDateForShowing, formatTime } from "../../utils/date-fromatter";
 import MovieInfo from "../movie-detail/MovieInfo";
 import type { ZaalProp, MovieProp, ShowProp } from "../../utils/fake-data";
 import GenericSelect from "../../components/generic-select";
+import { countSeats } from "../../utils/seat-layout";
+import { basePriceFor, formatPrice } from "../../utils/pricing";
+import { getAllWaitlists } from "../../api/waitlist";
+import type { WaitlistEntry } from "../../api/waitlist";
+import { cancelSeries, deleteShow, getAllShows, saveShow } from "../../api/shows";
+import {
+    SCHEDULING_RULES,
+    cleaningMinutesFor,
+    findConflicts,
+    hasErrors,
+    filmStart,
+    showEnd,
+    startOfWeek,
+} from "../../utils/scheduling";
+import type { ScheduleConflict } from "../../utils/scheduling";
+import ConflictList from "./conflict-list";
+import WeekTimeline from "./week-timeline";
+import SeriesForm from "./series-form";
+import PlannerForm from "./planner-form";
+import CsvForm from "./csv-form";
+import type { EditedSeries } from "./series-form";
+import { seriesFromShows } from "../../utils/show-series";
 import "./show-panel.css";
-import { getAppData, deleteItem, addItem, updateItem } from "../../utils/storage";
+
+async function loadPanelData(): Promise<{ shows: ShowProp[]; movies: MovieProp[]; rooms: ZaalProp[] }> {
+    const [shows, movies, rooms] = await Promise.all([
+        getAllShows(),
+        fetch("http://localhost:5275/api/Films/GetAll").then((r) => r.json()),
+        fetch("http://localhost:5275/api/Rooms/GetAll").then((r) => r.json()),
+    ]);
+    return { shows, movies, rooms };
+}
 
 function Show_panel() {
-    const { fakeMovies, fakeShows, fakeZalen } = getAppData();
+    const [shows, setShows] = useState<ShowProp[]>([]);
+    const [movies, setMovies] = useState<MovieProp[]>([]);
+    const [rooms, setRooms] = useState<ZaalProp[]>([]);
+    const [waitlists, setWaitlists] = useState<WaitlistEntry[]>([]);
+
+    useEffect(() => {
+        loadPanelData()
+            .then((data) => {
+                setShows(data.shows);
+                setMovies(data.movies);
+                setRooms(data.rooms);
+            })
+            .catch((error) => console.error("Failed to fetch shows:", error));
+        getAllWaitlists()
+            .then(setWaitlists)
+            .catch(() => setWaitlists([]));
+    }, []);
 
-    const [shows, setShows] = useState<ShowProp[]>(fakeShows);
-    const [movies] = useState<MovieProp[]>(fakeMovies);
-    const [rooms] = useState<ZaalProp[]>(fakeZalen);
+    const waitlistOf = (showId: string) => waitlists.filter((e) => e.showId === showId);
 
     const emptyShow: ShowProp = {
         id: '',
@@ -20,7 +64,7 @@ function Show_panel() {
         start_date: new Date,
         end_date: new Date,
     };
-    const [selectedShow, setSelectedShow] = useState<ShowProp>();
+    const [selectedShow, setSelectedShow] = useState<ShowProp>(emptyShow);
     const emptyMovie: MovieProp = {
         id: '',
         name: '',
@@ -39,47 +83,217 @@ function Show_panel() {
     const [selectedzaal, setSelectedZaal] = useState<ZaalProp>(emptyZaal);
     const [startDate, setStartDate] = useState<Date | string>("");
     const [endDate, setEndDate] = useState<Date | string>("");
+    // the end follows from the film and the breaks, unless it is set by hand
+    const [preShowMinutes, setPreShowMinutes] = useState(SCHEDULING_RULES.preShowMinutes);
+    const [intermissionMinutes, setIntermissionMinutes] = useState(0);
+    const [manualEnd, setManualEnd] = useState(false);
+    const [price, setPrice] = useState<string>("");
+    const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+    // the right side edits one show, plans a series or the week, or imports/exports CSV
+    const [mode, setMode] = useState<"show" | "series" | "planner" | "csv">("show");
+    const [editedSeries, setEditedSeries] = useState<EditedSeries | undefined>();
+    // the week in the timeline, and the shows the planner proposes for it
+    const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+    const [drafts, setDrafts] = useState<ShowProp[]>([]);
+    const [committing, setCommitting] = useState(false);
 
-    const handleSave = () => {
-        if (!selectedzaal || !selectedShow || startDate === "" || endDate === "") {
-            alert("Please enter all info.");
-            return;
-        }
+    const selectShow = (show: ShowProp) => {
+        const movie = movies.find(m => m.id === show.movieId) ?? emptyMovie;
+        const breaks = {
+            preShowMinutes: show.preShowMinutes ?? SCHEDULING_RULES.preShowMinutes,
+            intermissionMinutes: show.intermissionMinutes ?? 0,
+        };
+        // an end that doesn't follow from the film and the breaks was set by hand
+        const end = new Date(show.end_date).getTime();
+        setSelectedShow(show);
+        setSelectedZaal(rooms.find(z => z.id === show.zaalId) ?? emptyZaal);
+        setSelectedMovie(movie);
+        setStartDate(show.id !== "" ? new Date(show.start_date) : "");
+        setEndDate(show.id !== "" ? new Date(show.end_date) : "");
+        setPreShowMinutes(breaks.preShowMinutes);
+        setIntermissionMinutes(breaks.intermissionMinutes);
+        setManualEnd(show.id !== "" && showEnd(show.start_date, movie.duration, breaks).getTime() !== end);
+        setPrice(show.price?.toString() ?? "");
+        setConflicts([]);
+        setMode("show");
+    };
+
+    const computedEnd = startDate !== "" && selectedMovie.id !== "" ? showEnd(startDate, selectedMovie.duration, { preShowMinutes, intermissionMinutes }) : "";
+    const effectiveEnd = manualEnd ? endDate : computedEnd;
+
+    const conflictsOf = (show: ShowProp, others: ShowProp[]) =>
+        findConflicts(show, others, SCHEDULING_RULES, rooms.find(z => z.id === show.zaalId));
+
+    const describeShow = (show: ShowProp) =>
+        `${movies.find(m => m.id === show.movieId)?.name ?? "N/A"} - ${rooms.find(z => z.id === show.zaalId)?.naam ?? "N/A"} - ${formatDateForShowing(show.start_date)}`;
 
-        const start = new Date(startDate);
-        const end = new Date(endDate);
+    // Checks the show against the rest of the programme and saves it, returns undefined when it wasn't saved
+    const checkAndSave = async (show: ShowProp, ignoreWarnings = false): Promise<ShowProp | undefined> => {
+        const start = new Date(show.start_date);
+        const end = new Date(show.end_date);
 
         if (start > end) {
             alert("Start date can't be after end date.");
             return;
         }
 
-        const showEnd = new Date(start.getTime() + selectedMovie.duration * 60000);
-        if (showEnd > end) {
+        // at least the pre-show, the film and the intermission have to fit
+        const duration = movies.find(m => m.id === show.movieId)?.duration ?? 0;
+        if (showEnd(start, duration, show) > end) {
             alert("Show isn't long enough.");
             return;
         }
 
-        if (selectedShow) {
-            selectedShow.movieId = selectedMovie.id;
-            selectedShow.zaalId = selectedzaal.id;
-            selectedShow.start_date = start;
-            selectedShow.end_date = end;
-
-            updateItem("fakeShows", selectedShow);
-            alert("Show updated!");
-        } else {
-            const newShow: ShowProp = {
-                id: crypto.randomUUID(),
-                movieId: selectedMovie.id,
-                zaalId: selectedzaal.id,
-                start_date: start,
-                end_date: end,
-            };
-            addItem("fakeShows", newShow);
-            alert("Show saved!");
+        const found = conflictsOf(show, shows);
+        setConflicts(found);
+        if (hasErrors(found) || (found.length > 0 && !ignoreWarnings)) return;
+
+        try {
+            const saved = await saveShow(show);
+            setConflicts([]);
+            setShows((current) =>
+                current.some((s) => s.id === saved.id) ? current.map((s) => (s.id === saved.id ? saved : s)) : [...current, saved]
+            );
+            setSelectedShow(saved);
+            return saved;
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Show not saved, something went wrong.");
+        }
+    };
+
+    const handleSave = async (ignoreWarnings = false) => {
+        if (selectedMovie.id === "" || selectedzaal.id === "" || startDate === "" || effectiveEnd === "") {
+            alert("Please enter all info.");
+            return;
+        }
+
+        const saved = await checkAndSave({
+            id: selectedShow.id,
+            movieId: selectedMovie.id,
+            zaalId: selectedzaal.id,
+            start_date: new Date(startDate),
+            end_date: new Date(effectiveEnd),
+            price: price === "" ? undefined : Number(price),
+            preShowMinutes,
+            intermissionMinutes,
+        }, ignoreWarnings);
+        if (saved) alert(selectedShow.id ? "Show updated!" : "Show saved!");
+    };
+
+    const isDraft = (show: ShowProp) => drafts.some((d) => d.id === show.id);
+
+    // Dragged in the timeline: load it in the form and save it right away,
+    // if it clashes it stays in the form with the conflicts listed
+    // (proposed shows of the planner only change in the proposal)
+    const handleTimelineChange = (show: ShowProp) => {
+        if (isDraft(show)) {
+            setDrafts(drafts.map((d) => (d.id === show.id ? show : d)));
+            return;
+        }
+        selectShow(show);
+        checkAndSave(show);
+    };
+
+    const handleTimelineSelect = (show: ShowProp) => {
+        if (!isDraft(show)) selectShow(show);
+    };
+
+    // Saves the planner's proposal show by show; the ones that fail stay in the proposal
+    const handleCommitPlan = async () => {
+        const clashing = drafts.filter((d) => hasErrors(conflictsOf(d, [...shows, ...drafts])));
+        if (clashing.length > 0) {
+            alert(`${clashing.length} shows in the proposal clash. Move or remove them first.`);
+            return;
         }
 
+        setCommitting(true);
+        const saved: ShowProp[] = [];
+        const failed: ShowProp[] = [];
+        for (const draft of drafts) {
+            try {
+                saved.push(await saveShow({ ...draft, id: "" }));
+            } catch {
+                failed.push(draft);
+            }
+        }
+        setShows([...shows, ...saved]);
+        setDrafts(failed);
+        setCommitting(false);
+        alert(failed.length > 0 ? `${saved.length} shows saved, ${failed.length} failed.` : `${saved.length} shows saved!`);
+    };
+
+    // Clicked an empty spot in the timeline: a new show in that zaal at that time
+    const handleTimelineCreate = (zaalId: string, start: Date) => {
+        setSelectedShow(emptyShow);
+        setSelectedZaal(rooms.find(z => z.id === zaalId) ?? emptyZaal);
+        setStartDate(start);
+        setEndDate("");
+        setPreShowMinutes(SCHEDULING_RULES.preShowMinutes);
+        setIntermissionMinutes(0);
+        setManualEnd(false);
+        setPrice("");
+        setConflicts([]);
+        setMode("show");
+    };
+
+    const handleDelete = async () => {
+        if (selectedShow.id === "") {
+            alert("Please select a show.");
+            return;
+        }
+        if (!confirm("Delete this show?")) return;
+
+        try {
+            await deleteShow(selectedShow.id);
+            setShows(shows.filter(s => s.id !== selectedShow.id));
+            selectShow(emptyShow);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Show not deleted, something went wrong.");
+        }
+    };
+
+    const upcomingInSeries = (seriesId: string) =>
+        shows.filter((s) => s.seriesId === seriesId && new Date(s.start_date) > new Date());
+
+    const startSeries = () => {
+        setEditedSeries(undefined);
+        setMode("series");
+    };
+
+    const handleEditSeries = () => {
+        if (!selectedShow.seriesId) return;
+        const upcoming = upcomingInSeries(selectedShow.seriesId);
+        const series = seriesFromShows(upcoming);
+        if (!series) {
+            alert("This series has no upcoming shows.");
+            return;
+        }
+        setEditedSeries({ seriesId: selectedShow.seriesId, series, shows: upcoming });
+        setMode("series");
+    };
+
+    const handleCancelSeries = async () => {
+        if (!selectedShow.seriesId) return;
+        const seriesId = selectedShow.seriesId;
+        const count = upcomingInSeries(seriesId).length;
+        if (!confirm(`Cancel the ${count} upcoming shows of this series?`)) return;
+
+        try {
+            await cancelSeries(seriesId);
+            setShows(shows.filter((s) => s.seriesId !== seriesId || new Date(s.start_date) <= new Date()));
+            selectShow(emptyShow);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Series not cancelled, something went wrong.");
+        }
+    };
+
+    // the saved shows replace the upcoming shows the series had
+    const handleSeriesSaved = (saved: ShowProp[], seriesId: string) => {
+        const replaced = new Set(upcomingInSeries(seriesId).map((s) => s.id));
+        setShows([...shows.filter((s) => !replaced.has(s.id)), ...saved]);
+        setEditedSeries(undefined);
+        setMode("show");
+        selectShow(saved[0] ?? emptyShow);
     };
 
     function formatDateForInput(date: Date | string): string {
@@ -91,131 +305,268 @@ function Show_panel() {
     }
 
     return (
-        <div className="movie-panel-container">
-            <div className="movie-preview-side">
-                <div className="top"><h1>Preview</h1></div>
-                {selectedMovie != null && (
-                    <MovieInfo
-                        name={selectedMovie?.name}
-                        duration={selectedMovie.duration as number}
-                        rating={selectedMovie.rating}
-                        genre={selectedMovie.genre}
-                        includeDescription={true}
-                        description={selectedMovie.description}
-                        className="movie-info-preview"
-                        posterClass="movie-preview-poster"
-                        textClass="movie-preview-info"
-                    />
-                )}
-                {selectedzaal != null &&
-                    <div id="info">
-                        <div>
-                            <span className="label">Room name:</span> {selectedzaal?.naam}
+        <>
+            <div className="movie-panel-container">
+                <div className="movie-preview-side">
+                    <div className="top"><h1>Preview</h1></div>
+                    {selectedMovie != null && (
+                        <MovieInfo
+                            name={selectedMovie?.name}
+                            duration={selectedMovie.duration as number}
+                            rating={selectedMovie.rating}
+                            genre={selectedMovie.genre}
+                            includeDescription={true}
+                            description={selectedMovie.description}
+                            className="movie-info-preview"
+                            posterClass="movie-preview-poster"
+                            textClass="movie-preview-info"
+                        />
+                    )}
+                    {selectedzaal != null &&
+                        <div id="info">
+                            <div>
+                                <span className="label">Room name:</span> {selectedzaal?.naam}
+                            </div>
+                            <div>
+                                <span className="label">Total Seats:</span> {countSeats(selectedzaal)}
+                            </div>
                         </div>
-                        <div>
-                            <span className="label">Total Seats:</span> {selectedzaal?.stoelenPerRij * selectedzaal.rijen}
+                    }
+                    {startDate != "" &&
+                        <div id="info">
+                            <div>
+                                <span className="label">Start date:</span> {formatDateForShowing(startDate)}
+                            </div>
                         </div>
-                    </div>
-                }
-                {startDate != "" &&
-                    <div id="info">
-                        <div>
-                            <span className="label">Start date:</span> {formatDateForShowing(startDate)}
+                    }
+                    {selectedShow.id &&
+                        <div id="info">
+                            <div>
+                                <span className="label">Waitlist:</span> {waitlistOf(selectedShow.id).length} people, {waitlistOf(selectedShow.id).reduce((sum, e) => sum + e.seats, 0)} seats
+                            </div>
                         </div>
-                    </div>
-                }
-                {endDate != "" &&
-                    <div id="info">
-                        <div>
-                            <span className="label">End date:</span> {formatDateForShowing(endDate)}
+                    }
+                    {startDate != "" && selectedMovie.id !== "" &&
+                        <div id="info">
+                            <div>
+                                <span className="label">Film start:</span> {formatDateForShowing(filmStart(startDate, preShowMinutes))}
+                            </div>
                         </div>
-                    </div>
-                }
-            </div>
+                    }
+                    {effectiveEnd != "" &&
+                        <div id="info">
+                            <div>
+                                <span className="label">End date:</span> {formatDateForShowing(effectiveEnd)}
+                            </div>
+                        </div>
+                    }
+                </div>
 
-            <div className="movie-form-side">
-                <div className="form-top">
-                    <h2>{selectedShow?.id ? "Edit show info" : "Add show info"}</h2>
-
-                    <GenericSelect<MovieProp>
-                        title="Select a Movie"
-                        items={movies}
-                        selectedItem={selectedMovie}
-                        setSelectedItem={setSelectedMovie}
-                        Label={(m) => m.name}
-                        emptyItem={emptyMovie}
-                    />
-
-                    <GenericSelect<ZaalProp>
-                        title="Select a Room"
-                        items={rooms}
-                        selectedItem={selectedzaal}
-                        setSelectedItem={setSelectedZaal}
-                        Label={(z) => z.naam}
-                        emptyItem={emptyZaal}
-                    />
-
-                    <div className="form-group">
-                        <label>start date:</label>
-                        <input
-                            type="datetime-local"
-                            value={formatDateForInput(startDate)}
-                            onChange={(e) => setStartDate(e.target.value)}
-                        />
+                <div className="movie-form-side">
+                    <div className="mode-switch">
+                        <button className={mode === "show" ? "active" : ""} onClick={() => setMode("show")}>Single show</button>
+                        <button className={mode === "series" ? "active" : ""} onClick={startSeries}>Series</button>
+                        <button className={mode === "planner" ? "active" : ""} onClick={() => setMode("planner")}>Planner</button>
+                        <button className={mode === "csv" ? "active" : ""} onClick={() => setMode("csv")}>CSV</button>
                     </div>
 
-                    <div className="form-group">
-                        <label>end date:</label>
-                        <input
-                            type="datetime-local"
-                            value={formatDateForInput(endDate)}
-                            onChange={(e) => setEndDate(e.target.value)}
+                    {mode === "planner" ? (
+                        <PlannerForm
+                            movies={movies}
+                            rooms={rooms}
+                            shows={shows}
+                            weekStart={weekStart}
+                            drafts={drafts}
+                            setDrafts={setDrafts}
+                            onCommit={handleCommitPlan}
+                            committing={committing}
                         />
-                    </div>
+                    ) : mode === "csv" ? (
+                        <CsvForm
+                            movies={movies}
+                            rooms={rooms}
+                            shows={shows}
+                            weekStart={weekStart}
+                            describeShow={describeShow}
+                            onImported={(saved) => setShows((current) => [...current, ...saved])}
+                        />
+                    ) : mode === "series" ? (
+                        <SeriesForm
+                            key={editedSeries?.seriesId ?? "new"}
+                            movies={movies}
+                            rooms={rooms}
+                            shows={shows}
+                            edited={editedSeries}
+                            describeShow={describeShow}
+                            onSaved={handleSeriesSaved}
+                        />
+                    ) : (
+                        <div className="form-top">
+                            <h2>{selectedShow.id ? "Edit show info" : "Add show info"}</h2>
 
-                    <button onClick={handleSave} className="save-button">
-                        {selectedShow ? "Update Show" : "Save Show"}
-                    </button>
-                </div>
+                            <GenericSelect<MovieProp>
+                                title="Select a Movie"
+                                items={movies}
+                                selectedItem={selectedMovie}
+                                setSelectedItem={setSelectedMovie}
+                                Label={(m) => m.name}
+                                emptyItem={emptyMovie}
+                            />
+
+                            <GenericSelect<ZaalProp>
+                                title="Select a Room"
+                                items={rooms}
+                                selectedItem={selectedzaal}
+                                setSelectedItem={setSelectedZaal}
+                                Label={(z) => z.naam}
+                                emptyItem={emptyZaal}
+                            />
+
+                            <div className="form-group">
+                                <label>start date:</label>
+                                <input
+                                    type="datetime-local"
+                                    value={formatDateForInput(startDate)}
+                                    onChange={(e) => setStartDate(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-group">
+                                <label>ads and trailers (min):</label>
+                                <input
+                                    type="number"
+                                    value={preShowMinutes}
+                                    onChange={(e) => setPreShowMinutes(Math.max(Number(e.target.value), 0))}
+                                    min={0}
+                                />
+                            </div>
+
+                            <div className="form-group">
+                                <label>
+                                    <input
+                                        type="checkbox"
+                                        checked={intermissionMinutes > 0}
+                                        onChange={(e) => setIntermissionMinutes(e.target.checked ? SCHEDULING_RULES.intermissionMinutes : 0)}
+                                    />
+                                    {" "}Intermission
+                                </label>
+                                {intermissionMinutes > 0 &&
+                                    <input
+                                        type="number"
+                                        value={intermissionMinutes}
+                                        onChange={(e) => setIntermissionMinutes(Math.max(Number(e.target.value), 0))}
+                                        min={0}
+                                    />
+                                }
+                            </div>
 
-                <div className="form-bottom">
-                    <h3>Select a show</h3>
-                    <select
-                        value={selectedShow?.id || ""}
-                        onChange={(e) => {
-                            const show = shows.find((s) => s.id === e.target.value) || emptyShow;
-                            setSelectedShow(show);
-                            setSelectedZaal(fakeZalen.find(z => z.id === show.zaalId) ?? emptyZaal);
-                            setSelectedMovie(fakeMovies.find(m => m.id === show.movieId) ?? emptyMovie);
-                            if(show.id !== ""){
-                                setStartDate(new Date(show.start_date));
-                                setEndDate(new Date(show.end_date));
-                            }
-                        }}
-                    >
-                        <option value="">-- Pick a Show --</option>
-                        {shows.map((show) => (
-                            <option key={show.id} value={show.id}>
-                                {fakeMovies.find(m => m.id === show.movieId)?.name ?? "N/A"} - {fakeZalen.find(z => z.id === show.zaalId)?.naam ?? "N/A"}
-                            </option>
-                        ))}
-                    </select>
-
-                    <button
-                        className="delete-button"
-                        onClick={() => {
-                            if (!selectedShow) return;
-                            const updatedShows = shows.filter(s => s.id !== selectedShow.id);
-                            setShows(updatedShows);
-                            setSelectedShow(emptyShow);
-                            deleteItem("fakeShows", selectedShow.id)
-                        }}
-                    >
-                        Delete Show
-                    </button>
+                            <div className="form-group">
+                                <label>
+                                    <input
+                                        type="checkbox"
+                                        checked={manualEnd}
+                                        onChange={(e) => {
+                                            setManualEnd(e.target.checked);
+                                            if (e.target.checked) setEndDate(computedEnd);
+                                        }}
+                                    />
+                                    {" "}Set end date by hand
+                                </label>
+                                {manualEnd ? (
+                                    <input
+                                        type="datetime-local"
+                                        value={formatDateForInput(endDate)}
+                                        onChange={(e) => setEndDate(e.target.value)}
+                                    />
+                                ) : (
+                                    <div className="show-times">
+                                        {computedEnd === "" ? "Select a movie and a start date." : <>
+                                            Ends {formatDateForShowing(computedEnd)}: {preShowMinutes} min ads and trailers
+                                            + {selectedMovie.duration} min film
+                                            {intermissionMinutes > 0 && ` + ${intermissionMinutes} min intermission`}
+                                        </>}
+                                    </div>
+                                )}
+                                {effectiveEnd !== "" && selectedzaal.id !== "" &&
+                                    <small className="show-times">
+                                        Room ready again at {formatTime(new Date(new Date(effectiveEnd).getTime() + cleaningMinutesFor(selectedzaal) * 60000))}
+                                        {" "}({cleaningMinutesFor(selectedzaal)} min cleaning)
+                                    </small>
+                                }
+                            </div>
+
+                            <div className="form-group">
+                                <label>ticket price (€):</label>
+                                <input
+                                    type="number"
+                                    value={price}
+                                    onChange={(e) => setPrice(e.target.value)}
+                                    placeholder={`Room price (${formatPrice(basePriceFor(selectedzaal))})`}
+                                    min={0}
+                                    step={0.5}
+                                />
+                            </div>
+
+                            <button onClick={() => handleSave()} className="save-button">
+                                {selectedShow.id ? "Update Show" : "Save Show"}
+                            </button>
+
+                            <ConflictList
+                                conflicts={conflicts}
+                                describeShow={describeShow}
+                                onOpenShow={selectShow}
+                                onSaveAnyway={() => handleSave(true)}
+                            />
+
+                            {selectedShow.seriesId && (
+                                <div className="series-actions">
+                                    <span>Part of a series with {upcomingInSeries(selectedShow.seriesId).length} upcoming shows. Changes above only apply to this show.</span>
+                                    <div>
+                                        <button onClick={handleEditSeries}>Edit series</button>
+                                        <button onClick={handleCancelSeries}>Cancel series</button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="form-bottom">
+                        <h3>Select a show</h3>
+                        <select
+                            value={selectedShow.id}
+                            onChange={(e) => selectShow(shows.find((s) => s.id === e.target.value) ?? emptyShow)}
+                        >
+                            <option value="">-- Pick a Show --</option>
+                            {shows.map((show) => (
+                                <option key={show.id} value={show.id}>
+                                    {describeShow(show)} (waitlist: {waitlistOf(show.id).length})
+                                </option>
+                            ))}
+                        </select>
+
+                        <button
+                            className="delete-button"
+                            onClick={handleDelete}
+                        >
+                            Delete Show
+                        </button>
+                    </div>
                 </div>
             </div>
-        </div>
+
+            <WeekTimeline
+                shows={shows}
+                drafts={drafts}
+                movies={movies}
+                rooms={rooms}
+                selectedShowId={selectedShow.id}
+                weekStart={weekStart}
+                onWeekChange={setWeekStart}
+                onSelectShow={handleTimelineSelect}
+                onChangeShow={handleTimelineChange}
+                onCreateShow={handleTimelineCreate}
+            />
+        </>
     );
 }
 
@@ -0,0 +1,250 @@
+import { useMemo, useState } from "react";
+import type { MovieProp, ShowProp, ZaalProp } from "../../utils/fake-data";
+import { SCHEDULING_RULES, findConflicts, hasErrors, openingPeriod, startOfWeek } from "../../utils/scheduling";
+import type { ScheduleConflict } from "../../utils/scheduling";
+
+// The week's programme as a grid: one lane per zaal, time from left to right.
+// Every day shows from opening time until an hour after closing, so the
+// nights are left out. Shows can be dragged to another time or zaal, the
+// handle on the right resizes them, clicking an empty spot starts a new show.
+
+const MINUTE = 60 * 1000;
+const PX_PER_MINUTE = 0.5;
+const LANE_HEIGHT = 56;
+const SHOW_INSET = 6;
+// dragging moves in steps of 5 minutes, new shows start on a quarter
+const DRAG_STEP = 5;
+const NEW_SHOW_STEP = 15;
+const DAYS = 7;
+
+const { opensAt, openFor } = openingPeriod();
+const DAY_MINUTES = Math.min(openFor + 60, 24 * 60);
+const DAY_WIDTH = DAY_MINUTES * PX_PER_MINUTE;
+
+// opening time on the given day of the week
+function dayStart(weekStart: Date, day: number): Date {
+    const date = new Date(weekStart);
+    date.setDate(date.getDate() + day);
+    date.setHours(0, opensAt, 0, 0);
+    return date;
+}
+
+function timeToX(date: Date | string, weekStart: Date): number {
+    const time = new Date(date).getTime();
+    for (let day = DAYS - 1; day > 0; day--) {
+        const minutes = (time - dayStart(weekStart, day).getTime()) / MINUTE;
+        if (minutes >= 0) return day * DAY_WIDTH + Math.min(minutes, DAY_MINUTES) * PX_PER_MINUTE;
+    }
+    const minutes = (time - dayStart(weekStart, 0).getTime()) / MINUTE;
+    return Math.min(Math.max(minutes, 0), DAY_MINUTES) * PX_PER_MINUTE;
+}
+
+function xToTime(x: number, weekStart: Date, step: number): Date {
+    const day = Math.min(Math.max(Math.floor(x / DAY_WIDTH), 0), DAYS - 1);
+    const minutes = Math.min(Math.max(x - day * DAY_WIDTH, 0), DAY_WIDTH) / PX_PER_MINUTE;
+    return new Date(dayStart(weekStart, day).getTime() + Math.round(minutes / step) * step * MINUTE);
+}
+
+const NO_DRAFTS: ShowProp[] = [];
+
+const timeOfDay = (date: Date | string) =>
+    new Date(date).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+
+interface Drag {
+    show: ShowProp;
+    mode: "move" | "resize";
+    x: number;
+    y: number;
+    preview: ShowProp;
+}
+
+interface WeekTimelineProps {
+    shows: ShowProp[];
+    movies: MovieProp[];
+    rooms: ZaalProp[];
+    // not saved yet, e.g. a proposal of the planner
+    drafts?: ShowProp[];
+    selectedShowId: string;
+    // Monday of the week that is shown
+    weekStart: Date;
+    onWeekChange: (weekStart: Date) => void;
+    onSelectShow: (show: ShowProp) => void;
+    // a show was dragged to a new time, zaal or length
+    onChangeShow: (show: ShowProp) => void;
+    onCreateShow: (zaalId: string, start: Date) => void;
+}
+
+function WeekTimeline({
+    shows,
+    drafts = NO_DRAFTS,
+    movies,
+    rooms,
+    selectedShowId,
+    weekStart,
+    onWeekChange,
+    onSelectShow,
+    onChangeShow,
+    onCreateShow,
+}: WeekTimelineProps) {
+    const [drag, setDrag] = useState<Drag | null>(null);
+
+    const allShows = useMemo(() => [...shows, ...drafts], [shows, drafts]);
+    const conflictsOf = (show: ShowProp) =>
+        findConflicts(show, allShows, SCHEDULING_RULES, rooms.find((z) => z.id === show.zaalId));
+    const weekShows = useMemo(
+        () => allShows.filter((s) => new Date(s.end_date) > dayStart(weekStart, 0) && new Date(s.start_date) < dayStart(weekStart, DAYS)),
+        [allShows, weekStart]
+    );
+
+    // worked out once per change, not on every drag step
+    const conflicts = useMemo(
+        () => new Map(weekShows.map((s) => [s.id, findConflicts(s, allShows, SCHEDULING_RULES, rooms.find((z) => z.id === s.zaalId))] as const)),
+        [weekShows, allShows, rooms]
+    );
+
+    const moveWeek = (weeks: number) => {
+        const date = new Date(weekStart);
+        date.setDate(date.getDate() + weeks * 7);
+        onWeekChange(date);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, show: ShowProp) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const mode = (e.target as HTMLElement).classList.contains("resize-handle") ? "resize" : "move";
+        setDrag({ show, mode, x: e.clientX, y: e.clientY, preview: show });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag) return;
+        const { show } = drag;
+        const dx = e.clientX - drag.x;
+
+        if (drag.mode === "resize") {
+            const minEnd = new Date(show.start_date).getTime() + DRAG_STEP * MINUTE;
+            const end = xToTime(timeToX(show.end_date, weekStart) + dx, weekStart, DRAG_STEP);
+            setDrag({ ...drag, preview: { ...show, end_date: new Date(Math.max(end.getTime(), minEnd)) } });
+            return;
+        }
+
+        const length = new Date(show.end_date).getTime() - new Date(show.start_date).getTime();
+        const start = xToTime(timeToX(show.start_date, weekStart) + dx, weekStart, DRAG_STEP);
+        const lane = rooms.findIndex((z) => z.id === show.zaalId) + Math.round((e.clientY - drag.y) / LANE_HEIGHT);
+        const zaal = rooms[Math.min(Math.max(lane, 0), rooms.length - 1)];
+        setDrag({
+            ...drag,
+            preview: { ...show, zaalId: zaal.id, start_date: start, end_date: new Date(start.getTime() + length) },
+        });
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        const { show, preview } = drag;
+        setDrag(null);
+        const changed =
+            preview.zaalId !== show.zaalId ||
+            new Date(preview.start_date).getTime() !== new Date(show.start_date).getTime() ||
+            new Date(preview.end_date).getTime() !== new Date(show.end_date).getTime();
+        if (changed) onChangeShow(preview);
+        else onSelectShow(show);
+    };
+
+    const handleLaneClick = (e: React.MouseEvent<HTMLDivElement>, zaal: ZaalProp) => {
+        // only empty spots, clicks on shows are handled by the show
+        if (e.target !== e.currentTarget) return;
+        const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+        onCreateShow(zaal.id, xToTime(x - (NEW_SHOW_STEP / 2) * PX_PER_MINUTE, weekStart, NEW_SHOW_STEP));
+    };
+
+    const renderShow = (show: ShowProp) => {
+        const dragged = drag?.show.id === show.id ? drag.preview : show;
+        const showConflicts: ScheduleConflict[] =
+            dragged === show ? conflicts.get(show.id) ?? [] : conflictsOf(dragged);
+        const left = timeToX(dragged.start_date, weekStart);
+        const width = Math.max(timeToX(dragged.end_date, weekStart) - left, 6);
+        const film = movies.find((m) => m.id === show.movieId)?.name ?? "N/A";
+        const classes = [
+            "timeline-show",
+            hasErrors(showConflicts) ? "has-error" : showConflicts.length > 0 ? "has-warning" : "",
+            show.id === selectedShowId ? "selected" : "",
+            dragged !== show ? "dragging" : "",
+            drafts.includes(show) ? "draft" : "",
+        ];
+
+        return (
+            <div
+                key={show.id}
+                className={classes.filter(Boolean).join(" ")}
+                style={{ left, width, top: SHOW_INSET + (rooms.findIndex((z) => z.id === dragged.zaalId) - rooms.findIndex((z) => z.id === show.zaalId)) * LANE_HEIGHT }}
+                title={[`${film} ${timeOfDay(dragged.start_date)} - ${timeOfDay(dragged.end_date)}`, ...showConflicts.map((c) => c.message)].join("\n")}
+                onPointerDown={(e) => handlePointerDown(e, show)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+            >
+                <span className="timeline-show-title">{film}</span>
+                <span className="timeline-show-time">{timeOfDay(dragged.start_date)}</span>
+                <div className="resize-handle" />
+            </div>
+        );
+    };
+
+    return (
+        <div className="week-timeline">
+            <div className="timeline-toolbar">
+                <button onClick={() => moveWeek(-1)}>← Previous week</button>
+                <button onClick={() => onWeekChange(startOfWeek(new Date()))}>This week</button>
+                <button onClick={() => moveWeek(1)}>Next week →</button>
+                <span>
+                    Week of {weekStart.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })}
+                </span>
+            </div>
+
+            <div className="timeline">
+                <div className="timeline-labels">
+                    <div className="timeline-corner" />
+                    {rooms.map((zaal) => (
+                        <div key={zaal.id} className="timeline-label" style={{ height: LANE_HEIGHT }}>
+                            {zaal.naam}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="timeline-scroll">
+                    <div className="timeline-grid" style={{ width: DAYS * DAY_WIDTH }}>
+                        <div className="timeline-days">
+                            {Array.from({ length: DAYS }, (_, day) => (
+                                <div key={day} className="timeline-day" style={{ width: DAY_WIDTH }}>
+                                    <strong>
+                                        {dayStart(weekStart, day).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "numeric" })}
+                                    </strong>
+                                    <div className="timeline-hours">
+                                        {Array.from({ length: Math.floor(DAY_MINUTES / 60) }, (_, hour) => (
+                                            <span key={hour} style={{ width: 60 * PX_PER_MINUTE }}>
+                                                {String((Math.floor(opensAt / 60) + hour) % 24).padStart(2, "0")}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {rooms.map((zaal) => (
+                            <div
+                                key={zaal.id}
+                                className="timeline-lane"
+                                style={{ height: LANE_HEIGHT, backgroundSize: `${DAY_WIDTH}px 100%` }}
+                                onClick={(e) => handleLaneClick(e, zaal)}
+                            >
+                                {weekShows.filter((s) => s.zaalId === zaal.id).map(renderShow)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {rooms.length === 0 && <p>No rooms yet.</p>}
+        </div>
+    );
+}
+
+export default WeekTimeline;
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { describeVoucher, generateVouchers, getAllVouchers, voucherProblem } from "../../api/vouchers";
+import type { NewVouchers, Voucher } from "../../api/vouchers";
+import "./voucher-panel.css";
+
+const VOUCHER_VALID_MONTHS = 12;
+
+function defaultExpiry(): string {
+    const date = new Date();
+    date.setMonth(date.getMonth() + VOUCHER_VALID_MONTHS);
+    return date.toISOString().slice(0, 10);
+}
+
+function Voucher_panel() {
+    const [vouchers, setVouchers] = useState<Voucher[]>([]);
+    const [generated, setGenerated] = useState<Voucher[]>([]);
+    const [kind, setKind] = useState<NewVouchers["kind"]>("value");
+    const [value, setValue] = useState(25);
+    const [usageLimit, setUsageLimit] = useState(1);
+    const [expiresOn, setExpiresOn] = useState(defaultExpiry());
+    const [description, setDescription] = useState("Gift card");
+    const [count, setCount] = useState(1);
+    const [search, setSearch] = useState("");
+
+    useEffect(() => {
+        getAllVouchers()
+            .then(setVouchers)
+            .catch((error) => console.error("Failed to fetch vouchers:", error));
+    }, []);
+
+    const handleGenerate = async () => {
+        try {
+            const created = await generateVouchers({
+                kind,
+                value: Math.round(value * 100),
+                usageLimit,
+                // valid up to and including the chosen day
+                expiresAt: new Date(`${expiresOn}T23:59:59`).toISOString(),
+                description: description.trim() || (kind === "value" ? "Gift card" : "Free ticket"),
+                count,
+            });
+            setGenerated(created);
+            setVouchers((current) => [...current, ...created]);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Vouchers not generated, something went wrong.");
+        }
+    };
+
+    const shownVouchers = vouchers
+        .filter((v) => v.code.includes(search.trim().toUpperCase()) || v.description.toLowerCase().includes(search.trim().toLowerCase()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return (
+        <div className="movie-panel-container">
+            <div className="movie-preview-side">
+                <div className="top"><h1>Vouchers</h1></div>
+                {generated.length > 0 && (
+                    <div className="generated-codes">
+                        <h3>Just generated</h3>
+                        <textarea readOnly value={generated.map((v) => v.code).join("\n")} rows={Math.min(generated.length, 10)} />
+                    </div>
+                )}
+                <input
+                    className="voucher-search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by code or description"
+                />
+                <table className="voucher-table">
+                    <thead>
+                        <tr>
+                            <th>Code</th>
+                            <th>Description</th>
+                            <th>Status</th>
+                            <th>Expires</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {shownVouchers.map((v) => (
+                            <tr key={v.code} className={voucherProblem(v) ? "voucher-unusable" : ""}>
+                                <td><code>{v.code}</code></td>
+                                <td>{v.description}</td>
+                                <td>{voucherProblem(v) ?? describeVoucher(v)}</td>
+                                <td>{new Date(v.expiresAt).toLocaleDateString("en-GB")}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {shownVouchers.length === 0 && <p>No vouchers yet.</p>}
+            </div>
+
+            <div className="movie-form-side">
+                <div className="form-top">
+                    <h2>Generate vouchers</h2>
+
+                    <div className="form-group">
+                        <label>Type:</label>
+                        <select value={kind} onChange={(e) => setKind(e.target.value as NewVouchers["kind"])}>
+                            <option value="value">Fixed value</option>
+                            <option value="ticket">Free ticket</option>
+                        </select>
+                    </div>
+
+                    {kind === "value" && (
+                        <div className="form-group">
+                            <label>Value (€):</label>
+                            <input
+                                type="number"
+                                value={value || ""}
+                                onChange={(e) => setValue(Number(e.target.value))}
+                                min={0}
+                                step={0.5}
+                            />
+                        </div>
+                    )}
+
+                    <div className="form-group">
+                        <label>{kind === "value" ? "Number of orders it can be used for:" : "Number of free tickets:"}</label>
+                        <input
+                            type="number"
+                            value={usageLimit || ""}
+                            onChange={(e) => setUsageLimit(Number(e.target.value))}
+                            min={1}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Valid until:</label>
+                        <input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+                    </div>
+
+                    <div className="form-group">
+                        <label>Description:</label>
+                        <input
+                            type="text"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            placeholder="e.g. Compensation for cancelled show"
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label>How many codes:</label>
+                        <input
+                            type="number"
+                            value={count || ""}
+                            onChange={(e) => setCount(Number(e.target.value))}
+                            min={1}
+                            max={500}
+                        />
+                    </div>
+
+                    <button className="save-button" onClick={handleGenerate}>Generate</button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default Voucher_panel;
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import type { ZaalProp } from "../../utils/fake-data";
+import { SEAT_CELL_TYPES, countSeats, parseLayout, serializeLayout } from "../../utils/seat-layout";
+import type { SeatCellType } from "../../utils/seat-layout";
+
+interface SeatLayoutEditorProps {
+    zaal: ZaalProp;
+    onChange: (layout: string) => void;
+}
+
+const SeatLayoutEditor: React.FC<SeatLayoutEditorProps> = ({ zaal, onChange }) => {
+    const [brush, setBrush] = useState<SeatCellType>("aisle");
+    const [painting, setPainting] = useState(false);
+    const grid = parseLayout(zaal);
+
+    const paint = (row: number, col: number) => {
+        if (grid[row][col] === brush) return;
+        const updated = grid.map((cells) => [...cells]);
+        updated[row][col] = brush;
+        onChange(serializeLayout(updated));
+    };
+
+    const resetLayout = () => {
+        onChange(serializeLayout(grid.map((cells) => cells.map((): SeatCellType => "seat"))));
+    };
+
+    return (
+        <div className="form-group">
+            <label>Seat map ({countSeats(zaal)} seats):</label>
+
+            <div className="layout-palette">
+                {SEAT_CELL_TYPES.map((t) => (
+                    <button
+                        key={t.type}
+                        type="button"
+                        className={`layout-brush layout-cell-${t.type} ${brush === t.type ? "active" : ""}`}
+                        onClick={() => setBrush(t.type)}
+                    >
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="layout-screen" style={{ width: `${zaal.stoelenPerRij * 25 - 3}px` }}>screen</div>
+            <div
+                className="layout-grid"
+                style={{ gridTemplateColumns: `repeat(${zaal.stoelenPerRij}, 22px)` }}
+                onMouseLeave={() => setPainting(false)}
+                onMouseUp={() => setPainting(false)}
+            >
+                {grid.map((cells, row) =>
+                    cells.map((type, col) => (
+                        <div
+                            key={`${row}-${col}`}
+                            className={`layout-cell layout-cell-${type}`}
+                            title={`Row ${row + 1}, column ${col + 1}: ${type}`}
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                setPainting(true);
+                                paint(row, col);
+                            }}
+                            onMouseEnter={() => painting && paint(row, col)}
+                        />
+                    ))
+                )}
+            </div>
+
+            <button type="button" className="save-button" onClick={resetLayout}>
+                Reset to all seats
+            </button>
+        </div>
+    );
+};
+
+export default SeatLayoutEditor;
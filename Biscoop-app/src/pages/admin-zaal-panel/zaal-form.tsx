@@ -1,5 +1,8 @@
 import React from "react";
 import type { ZaalProp} from "../../utils/fake-data";
+import SeatLayoutEditor from "./seat-layout-editor";
+import { DEFAULT_BASE_PRICE } from "../../utils/pricing";
+import { SCHEDULING_RULES } from "../../utils/scheduling";
 
 interface ZaalFormProps {
     selectedZaal: ZaalProp;
@@ -50,6 +53,73 @@ const ZaalForm: React.FC<ZaalFormProps> = ({ selectedZaal, setSelectedZaal, hand
                 />
             </div>
 
+            <div className="form-group">
+                <label>Base ticket price (€):</label>
+                <input
+                    type="number"
+                    value={selectedZaal.basePrice ?? ""}
+                    onChange={(e) =>
+                        setSelectedZaal({
+                            ...selectedZaal,
+                            basePrice: e.target.value === "" ? undefined : Number(e.target.value),
+                        })
+                    }
+                    placeholder={`Default ${DEFAULT_BASE_PRICE.toFixed(2)}`}
+                    min={0}
+                    step={0.5}
+                />
+            </div>
+
+            <div className="form-group">
+                <label>Cleaning time between shows (min):</label>
+                <input
+                    type="number"
+                    value={selectedZaal.cleaningMinutes ?? ""}
+                    onChange={(e) =>
+                        setSelectedZaal({
+                            ...selectedZaal,
+                            cleaningMinutes: e.target.value === "" ? undefined : Number(e.target.value),
+                        })
+                    }
+                    placeholder={`Default ${SCHEDULING_RULES.cleaningBufferMinutes}`}
+                    min={0}
+                    step={5}
+                />
+            </div>
+
+            <div className="form-group">
+                <label>Row A is:</label>
+                <select
+                    value={selectedZaal.firstRowAtScreen === false ? "back" : "screen"}
+                    onChange={(e) =>
+                        setSelectedZaal({ ...selectedZaal, firstRowAtScreen: e.target.value === "screen" })
+                    }
+                >
+                    <option value="screen">Nearest the screen</option>
+                    <option value="back">At the back</option>
+                </select>
+            </div>
+
+            <div className="form-group">
+                <label>Seat 1 is:</label>
+                <select
+                    value={selectedZaal.numberFromLeft === false ? "right" : "left"}
+                    onChange={(e) =>
+                        setSelectedZaal({ ...selectedZaal, numberFromLeft: e.target.value === "left" })
+                    }
+                >
+                    <option value="left">On the left</option>
+                    <option value="right">On the right</option>
+                </select>
+            </div>
+
+            {selectedZaal.rijen > 0 && selectedZaal.stoelenPerRij > 0 && (
+                <SeatLayoutEditor
+                    zaal={selectedZaal}
+                    onChange={(layout) => setSelectedZaal({ ...selectedZaal, layout })}
+                />
+            )}
+
             <button onClick={handleSave} className="save-button">
                 {selectedZaal.id !== "" ? "Update zaal" : "Save zaal"}
             </button>
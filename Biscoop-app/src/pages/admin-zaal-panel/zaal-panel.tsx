@@ -108,6 +108,9 @@ function Zaal_panel() {
                             naam: selectedZaal.naam,
                             rijen: selectedZaal.rijen,
                             stoelenPerRij: selectedZaal.stoelenPerRij,
+                            layout: selectedZaal.layout,
+                            firstRowAtScreen: selectedZaal.firstRowAtScreen,
+                            numberFromLeft: selectedZaal.numberFromLeft,
                         }
                     }
                     button={false}
@@ -1,107 +1,171 @@
 import React, { useEffect, useState } from 'react';
 import './bookings.css';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { getUserBookings, getCurrentUserId } from '../../api/users';
+import type { UserBooking } from '../../api/users';
+import { cancelReservation } from '../../api/reservations';
+import { getOrderForReservation, refundOrder, refundableAmount } from '../../api/payments';
+import type { PaidOrder } from '../../api/payments';
+import { checkAvailability } from '../../api/waitlist';
+import { formatDateForShowing } from '../../utils/date-fromatter';
+import { downloadCalendar } from '../../utils/ics';
+import { CANCELLATION_POLICY, getCancellationTerms } from '../../utils/cancellation-policy';
+import { formatPrice } from '../../utils/pricing';
 
-type Booking = {
-  id: string;
-  movie: string;
-  date: string;
-  time: string;
-  seats: string[];
-};
+const startTime = (booking: UserBooking) => new Date(booking.show.begintijd).getTime();
 
-const SAMPLE_BOOKINGS: Booking[] = [
-  { id: '1', movie: 'The Grand Adventure', date: '2025-11-05', time: '19:30', seats: ['A3', 'A4'] },
-  { id: '2', movie: 'Space Between Worlds', date: '2025-11-08', time: '21:00', seats: ['C1'] },
-];
+// bookings made before payments existed have no order
+function cancellationTermsFor(booking: UserBooking, order: PaidOrder | undefined) {
+  return getCancellationTerms(booking.show.begintijd, order ? refundableAmount(order) : 0);
+}
 
-function loadBookings(key = 'bookings'): Booking[] {
-  try {
-    const raw = localStorage.getItem(key);
-    if (!raw) return SAMPLE_BOOKINGS;
-    return JSON.parse(raw) as Booking[];
-  } catch (e) {
-    return SAMPLE_BOOKINGS;
+function describeTerms(booking: UserBooking, order: PaidOrder | undefined): string {
+  const terms = cancellationTermsFor(booking, order);
+  if (terms.kind === 'free') {
+    return `Free cancellation until ${formatDateForShowing(terms.until)} (refund ${formatPrice(terms.refund)})`;
+  }
+  if (terms.kind === 'partial') {
+    return `Cancel before the show starts for a ${CANCELLATION_POLICY.partialRefundPercentage}% refund (${formatPrice(terms.refund)})`;
   }
+  return 'Can no longer be cancelled';
 }
 
 const Bookings: React.FC = () => {
-  const storageKey = 'bookings';
-  const [bookings, setBookings] = useState<Booking[]>(() => loadBookings(storageKey));
   const navigate = useNavigate();
-
-  // helper to generate a random seat like 'B7'
-  function randomSeat(): string {
-    const letters = 'ABCDEF'; // adjust range A-F
-    const letter = letters[Math.floor(Math.random() * letters.length)];
-    const number = Math.floor(Math.random() * 12) + 1; // 1-12
-    return `${letter}${number}`;
-  }
+  const [bookings, setBookings] = useState<UserBooking[]>([]);
+  const [orders, setOrders] = useState<Record<string, PaidOrder | undefined>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
 
   useEffect(() => {
-    localStorage.setItem(storageKey, JSON.stringify(bookings));
-  }, [bookings]);
+    const userId = getCurrentUserId();
+    if (!userId) {
+      setError('Please log in to see your bookings.');
+      setLoading(false);
+      return;
+    }
 
-  function randomMovieName(): string {
-    const movies = ['The Lost City', 'Galactic Odyssey', 'Mystery Manor', 'Comedy Nights', 'Horror House'];
-    return movies[Math.floor(Math.random() * movies.length)];
-  }
-  function randomTime(): string {
-    const hours = Math.floor(Math.random() * 5) + 17;
-    const minutes = Math.random() < 0.5 ? '00' : '30';
-    return `${hours}:${minutes}`;
+    getUserBookings(userId)
+      .then(async (data) => {
+        // what was paid decides the refund
+        const paid = await Promise.all(data.map((b) => getOrderForReservation(b.id)));
+        setOrders(Object.fromEntries(data.map((b, i) => [b.id, paid[i]])));
+        setBookings(data);
+        setError('');
+      })
+      .catch(() => setError('Failed to load bookings. Please try again.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  async function handleCancel(booking: UserBooking) {
+    const terms = cancellationTermsFor(booking, orders[booking.id]);
+    if (terms.kind === 'none') {
+      alert('This show has already started and can no longer be cancelled.');
+      return;
     }
-  function randomDate(): string 
-  {
-    const day = Math.floor(Math.random() * 30);
-    const month = Math.floor(Math.random() * 12);
-    const year = 2025;
-    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-}
+    if (!confirm(`Cancel your booking for ${booking.show.film.name}? You will get ${formatPrice(terms.refund)} back.`)) return;
 
-  function addSample() {
-    const next: Booking = {
-      id: String(Date.now()),
-      movie: randomMovieName(),
-      date: randomDate(),
-      time: randomTime(),
-      seats: [randomSeat()],
-    };
-    setBookings((s) => [next, ...s]);
-  }
+    let restoredVouchers: string[];
+    try {
+      restoredVouchers = await cancelReservation(booking.id);
+      setBookings((s) => s.filter((b) => b.id !== booking.id));
+      // the freed seats go to the waitlist first
+      checkAvailability(booking.show.id, null).catch(() => {});
+    } catch (err) {
+      console.error('Failed to cancel booking:', err);
+      alert('Booking not cancelled, something went wrong.');
+      return;
+    }
 
-  function removeBooking(id: string) {
-    setBookings((s) => s.filter((b) => b.id !== id));
+    // the server gave the points and vouchers back, the card payment follows
+    const vouchersNote = restoredVouchers.length > 0
+      ? ` Voucher(s) ${restoredVouchers.join(', ')} can be used again.`
+      : '';
+    if (terms.refund > 0) {
+      try {
+        await refundOrder(booking.id, terms.refund);
+        alert(`Booking cancelled, ${formatPrice(terms.refund)} will be refunded.${vouchersNote}`);
+      } catch (err) {
+        console.error('Failed to refund booking:', err);
+        alert(`Booking cancelled, but the refund failed. Please contact us.${vouchersNote}`);
+      }
+    } else if (vouchersNote) {
+      alert(`Booking cancelled.${vouchersNote}`);
+    }
   }
 
+  const now = Date.now();
+  const upcoming = bookings
+    .filter((b) => startTime(b) > now)
+    .sort((a, b) => startTime(a) - startTime(b));
+  const past = bookings
+    .filter((b) => startTime(b) <= now)
+    .sort((a, b) => startTime(b) - startTime(a));
+
+  const renderBooking = (b: UserBooking, canCancel: boolean) => (
+    <li key={b.id} className="booking-item">
+      <div className="booking-left">
+        <strong className="movie">{b.show.film.name}</strong>
+        <div className="meta">{b.show.zaal.naam} · {formatDateForShowing(b.show.begintijd)}</div>
+        {canCancel && <div className="cancel-terms">{describeTerms(b, orders[b.id])}</div>}
+      </div>
+      <div className="booking-right">
+        <div className="seats">Seats: {b.seats.map((s) => s.stoelnummer).join(', ')}</div>
+        <Link to={`/ticket/${b.id}`} className="btn btn-link">Ticket</Link>
+        {canCancel && (
+          <button className="btn btn-link" onClick={() => downloadCalendar([b], `biscoop-${b.id}.ics`)}>Add to calendar</button>
+        )}
+        {canCancel && (
+          <Link to={`/bookings/${b.id}/change`} className="btn btn-link">Change</Link>
+        )}
+        {canCancel && (
+          <button className="btn btn-delete" onClick={() => handleCancel(b)}>Cancel</button>
+        )}
+      </div>
+    </li>
+  );
+
   return (
     <div className="bookings-page">
       <header className="bookings-header">
         <h2>Your Bookings</h2>
         <div className="bookings-actions">
-          <button onClick={addSample} className="btn">Add sample booking</button>
+          <button onClick={() => navigate('/movie_list')} className="btn">Book a movie</button>
+          <button
+            onClick={() => downloadCalendar(upcoming, 'biscoop-bookings.ics')}
+            className="btn"
+            disabled={upcoming.length === 0}
+            title="All upcoming bookings in one calendar file"
+          >
+            Calendar feed
+          </button>
           <button onClick={() => navigate(-1)} className="btn btn-secondary">Back</button>
         </div>
       </header>
 
       <main>
-        {bookings.length === 0 ? (
+        {loading ? (
+          <p className="empty">Loading bookings...</p>
+        ) : error ? (
+          <p className="empty">{error}</p>
+        ) : bookings.length === 0 ? (
           <p className="empty">You have no bookings yet.</p>
         ) : (
-          <ul className="bookings-list">
-            {bookings.map((b) => (
-              <li key={b.id} className="booking-item">
-                <div className="booking-left">
-                  <strong className="movie">{b.movie}</strong>
-                  <div className="meta">{b.date} · {b.time}</div>
-                </div>
-                <div className="booking-right">
-                  <div className="seats">Seats: {b.seats.join(', ')}</div>
-                  <button className="btn btn-delete" onClick={() => removeBooking(b.id)}>Remove</button>
-                </div>
-              </li>
-            ))}
-          </ul>
+          <>
+            <h3 className="bookings-section">Upcoming</h3>
+            {upcoming.length === 0 ? (
+              <p className="empty">No upcoming bookings.</p>
+            ) : (
+              <ul className="bookings-list">{upcoming.map((b) => renderBooking(b, true))}</ul>
+            )}
+
+            <h3 className="bookings-section">Past</h3>
+            {past.length === 0 ? (
+              <p className="empty">No past bookings.</p>
+            ) : (
+              <ul className="bookings-list past">{past.map((b) => renderBooking(b, false))}</ul>
+            )}
+          </>
         )}
       </main>
     </div>
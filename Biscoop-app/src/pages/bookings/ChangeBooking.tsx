@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import './bookings.css';
+import { useNavigate, useParams } from 'react-router-dom';
+import Seats from '../../components/Seats';
+import {
+  changeSeats,
+  getReservationById,
+  getReservedSeats,
+  getSeatHolds,
+  holdSeats,
+  moveReservation,
+  releaseHold,
+} from '../../api/reservations';
+import type { SeatHolds } from '../../api/reservations';
+import type { UserBooking } from '../../api/users';
+import {
+  addOrderPayment,
+  getOrderForReservation,
+  pay,
+  paymentProvider,
+  quoteChange,
+  refundOrder,
+  refundableAmount,
+  repriceOrder,
+} from '../../api/payments';
+import type { ChangeQuote } from '../../api/payments';
+import { formatDateForShowing } from '../../utils/date-fromatter';
+import { formatPrice } from '../../utils/pricing';
+import { fetchShowsWithFilm, toBookingShow } from '../ScreeningRoom/show-lookup';
+import type { ShowWithFilm } from '../ScreeningRoom/show-lookup';
+import { PriceSummary } from '../ScreeningRoom/TicketSelector';
+
+async function loadBookingAndShows(reservationId: string): Promise<{ booking: UserBooking; shows: ShowWithFilm[] }> {
+  const booking = await getReservationById(reservationId);
+  const now = Date.now();
+  const shows = (await fetchShowsWithFilm())
+    .filter(({ film, show }) => film.id === booking.show.filmId && new Date(show.start_date).getTime() > now)
+    .sort((a, b) => new Date(a.show.start_date).getTime() - new Date(b.show.start_date).getTime());
+  return { booking, shows };
+}
+
+const ChangeBooking: React.FC = () => {
+  const { reservationId } = useParams();
+  const navigate = useNavigate();
+  const [booking, setBooking] = useState<UserBooking>();
+  const [shows, setShows] = useState<ShowWithFilm[]>([]);
+  const [targetShowId, setTargetShowId] = useState('');
+  const [reservedSeats, setReservedSeats] = useState<string[]>([]);
+  const [cardHolder, setCardHolder] = useState('');
+  const [cardNumber, setCardNumber] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [holds, setHolds] = useState<SeatHolds>({ heldByOthers: [] });
+  // the server's price for the picked seats, none for bookings made before payments existed
+  const [change, setChange] = useState<ChangeQuote>();
+  const selection = holds.own && holds.own.expiresAt > Date.now() ? holds.own.seats : [];
+  const selectionKey = selection.join(',');
+
+  useEffect(() => {
+    if (!reservationId) return;
+    loadBookingAndShows(reservationId)
+      .then((loaded) => {
+        setBooking(loaded.booking);
+        setShows(loaded.shows);
+        setTargetShowId(loaded.booking.showId);
+      })
+      .catch(() => setError('This booking could not be found.'));
+  }, [reservationId]);
+
+  useEffect(() => {
+    if (!targetShowId) return;
+    getReservedSeats(targetShowId)
+      .then(setReservedSeats)
+      .catch(() => setReservedSeats([]));
+    getSeatHolds(targetShowId)
+      .then(setHolds)
+      .catch(() => setHolds({ heldByOthers: [] }));
+  }, [targetShowId]);
+
+  useEffect(() => {
+    if (!reservationId || !targetShowId) return;
+    quoteChange(reservationId, targetShowId, selectionKey ? selectionKey.split(',') : [])
+      .then(setChange)
+      .catch(() => setChange(undefined));
+  }, [reservationId, targetShowId, selectionKey]);
+
+  if (!booking) {
+    return <p className="empty">{error || 'Loading booking...'}</p>;
+  }
+
+  const target = shows.find(({ show }) => show.id === targetShowId);
+  const ownSeats = booking.seats.map((s) => s.stoelnummer);
+  const sameShow = targetShowId === booking.showId;
+  // on the same show, the booking's own seats can be picked again
+  const takenSeats = sameShow ? reservedSeats.filter((s) => !ownSeats.includes(s)) : reservedSeats;
+  // bookings made before payments existed have no price on record, so nothing to settle
+  const difference = change?.difference ?? 0;
+
+  const handleSelectionChange = async (seatNumbers: string[]) => {
+    try {
+      if (seatNumbers.length === 0) await releaseHold(targetShowId);
+      const own = seatNumbers.length > 0 ? await holdSeats(targetShowId, seatNumbers) : undefined;
+      setHolds((current) => ({ ...current, own }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Seats could not be held.");
+      getSeatHolds(targetShowId).then(setHolds).catch(() => {});
+    }
+  };
+
+  const dropHold = () => {
+    releaseHold(targetShowId);
+    setHolds((current) => ({ ...current, own: undefined }));
+  };
+
+  const pickShow = (showId: string) => {
+    dropHold();
+    setTargetShowId(showId);
+    setError('');
+  };
+
+  const handleConfirm = async () => {
+    if (!target || selection.length !== ownSeats.length) return;
+    if (difference > 0 && (cardHolder.trim() === '' || cardNumber.trim() === '')) {
+      setError('Please enter your card details to pay the difference.');
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+    let extraPaymentId: string | undefined;
+    if (difference > 0) {
+      const result = await pay({
+        amount: difference,
+        description: `Change of booking ${booking.id}`,
+        cardNumber,
+        cardHolder,
+      });
+      if (result.status !== 'succeeded' || !result.paymentId) {
+        dropHold();
+        setError(`${result.message ?? 'The payment failed.'} Your booking has not been changed.`);
+        setBusy(false);
+        return;
+      }
+      extraPaymentId = result.paymentId;
+    }
+
+    try {
+      if (sameShow) {
+        await changeSeats(booking.id, selection);
+      } else {
+        await moveReservation(booking.id, selection, toBookingShow(target));
+      }
+    } catch (err) {
+      console.error("Failed to change booking:", err);
+      let refundFailed = false;
+      if (extraPaymentId) {
+        try {
+          await paymentProvider.refund(extraPaymentId, difference);
+        } catch (refundErr) {
+          console.error("Failed to refund the extra payment:", refundErr);
+          refundFailed = true;
+        }
+      }
+      dropHold();
+      setError(refundFailed
+        ? `Your booking could not be changed and the ${formatPrice(difference)} could not be refunded, please contact us.`
+        : 'Your booking could not be changed, please pick other seats.');
+      getReservedSeats(targetShowId).then(setReservedSeats).catch(() => {});
+      setBusy(false);
+      return;
+    }
+
+    // the booking has changed now, a failing refund must not undo that
+    let refunded = 0;
+    let refundFailed = false;
+    let recordFailed = false;
+    if (change) {
+      if (extraPaymentId) {
+        await addOrderPayment(booking.id, extraPaymentId, difference).catch(() => { recordFailed = true; });
+      }
+      if (difference < 0) {
+        try {
+          const order = await getOrderForReservation(booking.id);
+          refunded = Math.min(-difference, order ? refundableAmount(order) : 0);
+          await refundOrder(booking.id, refunded);
+        } catch (err) {
+          console.error("Failed to refund the difference:", err);
+          refundFailed = true;
+        }
+      }
+      await repriceOrder(booking.id).catch(() => { recordFailed = true; });
+    }
+    alert(
+      refundFailed ? `Booking changed, but the refund of ${formatPrice(refunded)} failed. Please contact us.`
+        : recordFailed ? 'Booking changed, but its new price could not be saved. Please contact us.'
+        : difference > 0 ? `Booking changed, ${formatPrice(difference)} was charged.`
+        : refunded > 0 ? `Booking changed, ${formatPrice(refunded)} will be refunded.`
+        : 'Booking changed.'
+    );
+    navigate('/bookings');
+  };
+
+  return (
+    <div className="bookings-page">
+      <header className="bookings-header">
+        <h2>Change booking</h2>
+        <div className="bookings-actions">
+          <button onClick={() => { releaseHold(targetShowId); navigate('/bookings'); }} className="btn btn-secondary">Back</button>
+        </div>
+      </header>
+
+      <p className="meta">
+        {booking.show.film.name} · {booking.show.zaal.naam} · {formatDateForShowing(booking.show.begintijd)} · seats {ownSeats.join(', ')}
+      </p>
+
+      <div className="change-show">
+        <label>Show:</label>
+        <select value={targetShowId} onChange={(e) => pickShow(e.target.value)} disabled={busy}>
+          {shows.map(({ show }) => (
+            <option key={show.id} value={show.id}>
+              {formatDateForShowing(show.start_date)} · {show.zaal.naam}{show.id === booking.showId ? ' (current)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {target ? (
+        <>
+          <Seats
+            zaal={target.show.zaal}
+            button={false}
+            reservedSeats={takenSeats}
+            heldSeats={holds.heldByOthers}
+            selectedSeats={selection}
+            onSelectionChange={handleSelectionChange}
+            seatCount={ownSeats.length}
+          />
+          {change && <PriceSummary breakdown={change.breakdown} />}
+
+          {change && (
+            <p className="change-difference">
+              {difference > 0 && `You pay ${formatPrice(difference)} extra.`}
+              {difference < 0 && `You get ${formatPrice(-difference)} back.`}
+              {difference === 0 && 'No price difference.'}
+            </p>
+          )}
+          {difference > 0 && (
+            <div className="change-payment">
+              <input value={cardHolder} onChange={(e) => setCardHolder(e.target.value)} placeholder="Name on card" disabled={busy} />
+              <input value={cardNumber} onChange={(e) => setCardNumber(e.target.value)} placeholder="Card number" disabled={busy} />
+            </div>
+          )}
+          {error && <p className="change-error">{error}</p>}
+          <button
+            className="btn"
+            onClick={handleConfirm}
+            disabled={busy || selection.length !== ownSeats.length}
+          >
+            {busy ? 'Changing...' : `Confirm ${selection.length} of ${ownSeats.length} seat(s)`}
+          </button>
+        </>
+      ) : (
+        <p className="empty">This show can no longer be changed.</p>
+      )}
+    </div>
+  );
+};
+
+export default ChangeBooking;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import './check-in.css';
+import { Link } from 'react-router-dom';
+import QrScanner from './QrScanner';
+import { getReservedSeats } from '../../api/reservations';
+import { checkIn, getCheckInsForShow } from '../../api/check-ins';
+import { useUserContext } from '../../context/UserContext';
+import { formatDateForShowing } from '../../utils/date-fromatter';
+import type { ZaalProp } from '../../utils/fake-data';
+import { fetchShowsWithFilm } from '../ScreeningRoom/show-lookup';
+import type { ShowWithFilm } from '../ScreeningRoom/show-lookup';
+
+// the doors open this long before a show starts and close when it ends, as on the server
+const CHECK_IN_OPENS_MINUTES = 45;
+
+interface ScanResult {
+  level: 'ok' | 'warning' | 'error';
+  message: string;
+}
+
+function findCurrentShow(shows: ShowWithFilm[], roomId: string, now: number): ShowWithFilm | undefined {
+  return shows
+    .filter(({ show }) => show.zaal.id === roomId)
+    .filter(({ show }) =>
+      new Date(show.start_date).getTime() - CHECK_IN_OPENS_MINUTES * 60000 <= now &&
+      new Date(show.end_date).getTime() > now
+    )
+    .sort((a, b) => new Date(a.show.start_date).getTime() - new Date(b.show.start_date).getTime())[0];
+}
+
+// The server checks the ticket, the room, the day and the time, and whether the booking
+// was cancelled; the current show only gives the welcome its film name.
+async function validateAndCheckIn(code: string, room: ZaalProp, currentShow: ShowWithFilm | undefined): Promise<ScanResult> {
+  const result = await checkIn(code, room.id);
+  if ('refused' in result) {
+    return { level: 'error', message: result.refused };
+  }
+
+  const { checkIn: checked, isNew } = result;
+  if (!isNew) {
+    return {
+      level: 'warning',
+      message: `Already scanned at ${new Date(checked.checkedInAt).toLocaleTimeString()} (seats ${checked.seats.join(', ')}).`,
+    };
+  }
+  return { level: 'ok', message: `Welcome! ${currentShow ? `${currentShow.film.name}, seats` : 'Seats'} ${checked.seats.join(', ')}.` };
+}
+
+const CheckIn: React.FC = () => {
+  const { isAuthenticated } = useUserContext();
+  const [shows, setShows] = useState<ShowWithFilm[]>([]);
+  const [roomId, setRoomId] = useState('');
+  const [code, setCode] = useState('');
+  const [useCamera, setUseCamera] = useState(false);
+  const [result, setResult] = useState<ScanResult>();
+  const [expectedSeats, setExpectedSeats] = useState<string[]>([]);
+  const [checkedInSeats, setCheckedInSeats] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    fetchShowsWithFilm()
+      .then(setShows)
+      .catch((error) => console.error("Failed to fetch shows:", error));
+
+    // the current show changes over the evening
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const rooms = Array.from(new Map(shows.map(({ show }) => [show.zaal.id, show.zaal])).values());
+  const room = rooms.find((r) => r.id === roomId);
+  const currentShow = room ? findCurrentShow(shows, room.id, now) : undefined;
+  const currentShowId = currentShow?.show.id;
+
+  // reloaded for every scan
+  useEffect(() => {
+    if (!currentShowId) {
+      setExpectedSeats([]);
+      setCheckedInSeats([]);
+      return;
+    }
+    getCheckInsForShow(currentShowId)
+      .then((checkIns) => setCheckedInSeats(checkIns.flatMap((c) => c.seats)))
+      .catch(() => setCheckedInSeats([]));
+    getReservedSeats(currentShowId)
+      .then(setExpectedSeats)
+      .catch(() => setExpectedSeats([]));
+  }, [currentShowId, result]);
+
+  const handleCode = async (scanned: string) => {
+    if (!room || scanned.trim() === '') return;
+    try {
+      setResult(await validateAndCheckIn(scanned, room, currentShow));
+    } catch {
+      setResult({ level: 'error', message: 'The ticket could not be checked, please try again.' });
+    }
+    setCode('');
+  };
+
+  if (!isAuthenticated) {
+    return <p className="check-in-hint">Check-in is for staff only. <Link to="/login">Log in</Link> first.</p>;
+  }
+
+  return (
+    <div className="check-in-page">
+      <h2>Door check-in</h2>
+
+      <div className="check-in-room">
+        <label>This entrance is for:</label>
+        <select value={roomId} onChange={(e) => { setRoomId(e.target.value); setResult(undefined); }}>
+          <option value="">-- Pick a room --</option>
+          {rooms.map((r) => (
+            <option key={r.id} value={r.id}>{r.naam}</option>
+          ))}
+        </select>
+      </div>
+
+      {room && (
+        <>
+          <p className="check-in-show">
+            {currentShow
+              ? <>Now letting in: <strong>{currentShow.film.name}</strong> at {formatDateForShowing(currentShow.show.start_date)}</>
+              : 'No show is letting in in this room right now.'}
+          </p>
+
+          <form
+            className="check-in-scan"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCode(code);
+            }}
+          >
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Scan or type the ticket code"
+              autoFocus
+            />
+            <button type="submit" className="button2">Check in</button>
+            <button type="button" className="button2" onClick={() => setUseCamera(!useCamera)}>
+              {useCamera ? 'Stop camera' : 'Use camera'}
+            </button>
+          </form>
+
+          {useCamera && <QrScanner onScan={handleCode} />}
+
+          {result && <div className={`check-in-result ${result.level}`}>{result.message}</div>}
+
+          {currentShow && (
+            <div className="check-in-list">
+              <h3>Checked in {checkedInSeats.length} of {expectedSeats.length} seats</h3>
+              <div className="check-in-seats">
+                {[...expectedSeats].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })).map((seat) => (
+                  <span key={seat} className={`check-in-seat ${checkedInSeats.includes(seat) ? 'in' : ''}`}>{seat}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CheckIn;
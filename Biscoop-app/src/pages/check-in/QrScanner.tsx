@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// The browser's own barcode reader (Chrome, Edge, Android). It isn't in the
+// TypeScript DOM types yet, so only the part we use is described here.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 400;
+
+interface QrScannerProps {
+  onScan: (code: string) => void;
+}
+
+const QrScanner: React.FC<QrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      setError("This browser can't read QR codes from the camera. Type the code instead.");
+      return;
+    }
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | undefined;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let lastCode = '';
+    let stopped = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        video.play().catch(() => {});
+
+        interval = setInterval(async () => {
+          if (video.readyState < 2) return;
+          const [barcode] = await detector.detect(video).catch(() => []);
+          // the same ticket stays in view for a while, only report it once
+          if (barcode && barcode.rawValue !== lastCode) {
+            lastCode = barcode.rawValue;
+            onScanRef.current(barcode.rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => setError('The camera could not be started. Type the code instead.'));
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) return <p className="check-in-hint">{error}</p>;
+  return <video ref={videoRef} className="check-in-camera" muted playsInline />;
+};
+
+export default QrScanner;
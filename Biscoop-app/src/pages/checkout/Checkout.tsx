@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import './checkout.css';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { getHoldSessionId, getReservationById, getSeatHolds, releaseHold } from '../../api/reservations';
+import type { BookingShow, SeatHold } from '../../api/reservations';
+import { getCurrentUserId } from '../../api/users';
+import type { UserBooking } from '../../api/users';
+import { MOCK_TEST_CARDS, mockPaymentProvider, pay, paymentProvider, placeOrder, quoteOrder } from '../../api/payments';
+import type { OrderRequest, PaidOrder } from '../../api/payments';
+import { formatCountdown, formatDateForShowing } from '../../utils/date-fromatter';
+import { downloadCalendar } from '../../utils/ics';
+import { formatPrice, ticketCount } from '../../utils/pricing';
+import type { PriceBreakdown, TicketCounts } from '../../utils/pricing';
+import { FREE_TICKET_POINTS, freeTicketsAvailable, getPoints } from '../../api/loyalty';
+import { describeVoucher, getVoucher, normalizeCode, voucherProblem } from '../../api/vouchers';
+import type { Voucher } from '../../api/vouchers';
+import { PriceSummary } from '../ScreeningRoom/TicketSelector';
+
+// what the screening room hands over (router state) when the user continues to checkout,
+// the price is asked from the server
+export interface CheckoutOrder {
+  show: BookingShow;
+  seats: string[];
+  tickets: TicketCounts;
+}
+
+type CheckoutStatus = 'idle' | 'paying' | 'failed' | 'paid';
+
+const Checkout: React.FC = () => {
+  const navigate = useNavigate();
+  const order = useLocation().state as CheckoutOrder | null;
+  const [cardHolder, setCardHolder] = useState('');
+  const [cardNumber, setCardNumber] = useState('');
+  const [status, setStatus] = useState<CheckoutStatus>('idle');
+  const [error, setError] = useState('');
+  const [placed, setPlaced] = useState<PaidOrder>();
+  const [booking, setBooking] = useState<UserBooking>();
+  const [freeTickets, setFreeTickets] = useState(0);
+  const [points, setPoints] = useState<number>();
+  // as they were when applied, the server checks them again when pricing the order
+  const [appliedVouchers, setAppliedVouchers] = useState<Voucher[]>([]);
+  const [voucherInput, setVoucherInput] = useState('');
+  const [voucherMessage, setVoucherMessage] = useState('');
+  const [quote, setQuote] = useState<PriceBreakdown>();
+  const [quoteError, setQuoteError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [hold, setHold] = useState<SeatHold>();
+  const [holdLoaded, setHoldLoaded] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const userId = getCurrentUserId();
+  const request: OrderRequest | undefined = order && userId
+    ? {
+        userId,
+        showId: order.show.id,
+        seats: order.seats,
+        tickets: order.tickets,
+        freeTickets,
+        voucherCodes: appliedVouchers.map((v) => v.code),
+      }
+    : undefined;
+  const requestKey = JSON.stringify(request);
+
+  // the server spends the points on the order and adds the ones it earns
+  useEffect(() => {
+    if (!userId || status === 'paying') return;
+    getPoints(userId)
+      .then(({ balance }) => setPoints(balance))
+      .catch(() => setPoints(undefined));
+  }, [userId, status]);
+
+  // the price shown is the one the server charges, it changes with free tickets and vouchers
+  useEffect(() => {
+    if (!requestKey || status === 'paying' || status === 'paid') return;
+    quoteOrder(JSON.parse(requestKey) as OrderRequest)
+      .then((breakdown) => {
+        setQuote(breakdown);
+        setQuoteError('');
+      })
+      .catch((err) => {
+        setQuote(undefined);
+        setQuoteError(err instanceof Error ? err.message : 'The price could not be worked out, please try again.');
+      });
+  }, [requestKey, status]);
+
+  useEffect(() => {
+    if (!order) return;
+    getSeatHolds(order.show.id)
+      .then(({ own }) => setHold(own))
+      .catch(() => setHold(undefined))
+      .finally(() => setHoldLoaded(true));
+  }, [order]);
+
+  // closing the tab in the middle of checkout gives the seats back right away;
+  // leaving the page any other way lets the hold run out
+  useEffect(() => {
+    if (!order || status === 'paid') return;
+    const releaseOnExit = () => releaseHold(order.show.id);
+    window.addEventListener('pagehide', releaseOnExit);
+    return () => window.removeEventListener('pagehide', releaseOnExit);
+  }, [order, status]);
+
+  if (!order) {
+    return (
+      <div className="checkout-page">
+        <p className="checkout-message">There is nothing to check out. <Link to="/movie_list">Pick a show</Link> first.</p>
+      </div>
+    );
+  }
+
+  const { show, seats } = order;
+  const maxFreeTickets = points !== undefined ? freeTicketsAvailable(points, ticketCount(order.tickets)) : 0;
+  // what each voucher takes off, as the server worked it out
+  const vouchers = appliedVouchers.map((voucher) => ({
+    voucher,
+    amount: -(quote?.lines.find((l) => l.label === `Voucher ${voucher.code}`)?.amount ?? 0),
+  }));
+  const holdLost = holdLoaded && (!hold || hold.expiresAt <= now) && status !== 'paying' && status !== 'paid';
+
+  const giveUpHold = () => {
+    releaseHold(show.id);
+    setHold(undefined);
+  };
+
+  const backToSeats = () => navigate(`/screeningRoom/${show.id}`);
+
+  const handleCancel = async () => {
+    await releaseHold(show.id);
+    backToSeats();
+  };
+
+  const handleApplyVoucher = async () => {
+    const code = normalizeCode(voucherInput);
+    if (appliedVouchers.some((v) => v.code === code)) {
+      setVoucherMessage('This voucher is already applied.');
+      return;
+    }
+    try {
+      const voucher = await getVoucher(code);
+      const problem = voucherProblem(voucher);
+      if (problem || !voucher) {
+        setVoucherMessage(problem ?? '');
+        return;
+      }
+      setAppliedVouchers((current) => [...current, voucher]);
+      setVoucherInput('');
+      setVoucherMessage('');
+    } catch {
+      setVoucherMessage('The voucher could not be checked, please try again.');
+    }
+  };
+
+  const handleCheckBalance = async () => {
+    try {
+      const voucher = await getVoucher(voucherInput);
+      const problem = voucherProblem(voucher);
+      setVoucherMessage(voucher ? `${voucher.code}: ${problem ?? describeVoucher(voucher)}` : problem ?? '');
+    } catch {
+      setVoucherMessage('The voucher could not be checked, please try again.');
+    }
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !request) {
+      alert("Please log in to pay for your tickets.");
+      navigate('/login');
+      return;
+    }
+    if (!quote) return;
+    if (quote.total > 0 && (cardHolder.trim() === '' || cardNumber.trim() === '')) {
+      setError('Please enter your card details.');
+      return;
+    }
+
+    setStatus('paying');
+    setError('');
+    // an order paid for entirely with points or vouchers skips the payment provider
+    let paymentId: string | undefined;
+    if (quote.total > 0) {
+      const result = await pay({
+        amount: quote.total,
+        description: `${show.film.name} - ${formatDateForShowing(show.begintijd)}`,
+        cardNumber,
+        cardHolder,
+      });
+
+      if (result.status !== 'succeeded' || !result.paymentId) {
+        giveUpHold();
+        setError(`${result.message ?? 'The payment failed.'} Your seats have been released.`);
+        setStatus('failed');
+        return;
+      }
+      paymentId = result.paymentId;
+    }
+
+    // the server prices the order again, debits the vouchers and points and reserves the seats
+    let paid: PaidOrder;
+    try {
+      paid = await placeOrder(request, { paymentId, amount: quote.total }, getHoldSessionId());
+    } catch (err) {
+      console.error("Failed to reserve paid seats:", err);
+      if (paymentId) await paymentProvider.refund(paymentId, quote.total);
+      giveUpHold();
+      const reason = err instanceof Error ? err.message : 'Your seats could not be reserved.';
+      setError(paymentId
+        ? `${reason} The payment has been refunded.`
+        : `${reason} Your points and vouchers have not been used.`);
+      setStatus('failed');
+      return;
+    }
+
+    setPlaced(paid);
+    setStatus('paid');
+    getReservationById(paid.reservationId).then(setBooking).catch(() => {});
+  };
+
+  if (status === 'paid' && placed) {
+    return (
+      <div className="checkout-page">
+        <h2>You're all set!</h2>
+        <section className="checkout-summary">
+          <h3>{show.film.name}</h3>
+          <div className="meta">{show.zaal.naam} · {formatDateForShowing(show.begintijd)}</div>
+          <div className="meta">Seats: {seats.join(', ')}</div>
+          <p>Payment of {formatPrice(placed.breakdown.total)} received. Reference {placed.reservationId}.</p>
+          {points !== undefined && <p>You now have {points} loyalty points.</p>}
+        </section>
+        <div className="checkout-actions">
+          {booking && (
+            <button type="button" className="button2" onClick={() => downloadCalendar([booking], `biscoop-${booking.id}.ics`)}>
+              Add to calendar
+            </button>
+          )}
+          <button type="button" className="button2" onClick={() => navigate(`/ticket/${placed.reservationId}`)}>View ticket</button>
+          <button type="button" className="button2" onClick={() => navigate('/bookings')}>Go to bookings</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="checkout-page">
+      <h2>Checkout</h2>
+
+      <section className="checkout-summary">
+        <h3>{show.film.name}</h3>
+        <div className="meta">{show.zaal.naam} · {formatDateForShowing(show.begintijd)}</div>
+        <div className="meta">Seats: {seats.join(', ')}</div>
+        {quote ? <PriceSummary breakdown={quote} /> : <p className="checkout-error">{quoteError || (userId ? 'Working out the price...' : 'Log in to see the price.')}</p>}
+      </section>
+
+      {hold && !holdLost && status !== 'paid' && (
+        <p className="hold-countdown">Your seats are held for {formatCountdown(hold.expiresAt - now)}</p>
+      )}
+
+      {holdLost ? (
+        <div className="checkout-message">
+          <p>{error || 'Your hold expired and the seats were released.'}</p>
+          <button type="button" className="button2" onClick={backToSeats}>Choose seats again</button>
+        </div>
+      ) : (
+        <form className="checkout-payment" onSubmit={handlePay}>
+          <h3>Payment</h3>
+          {points !== undefined && (
+            <div className="checkout-points">
+              <span>You have {points} points, {FREE_TICKET_POINTS} points buy a free ticket.</span>
+              {maxFreeTickets > 0 && (
+                <label>
+                  Free tickets
+                  <select
+                    value={freeTickets}
+                    onChange={(e) => setFreeTickets(Number(e.target.value))}
+                    disabled={status === 'paying'}
+                  >
+                    {Array.from({ length: maxFreeTickets + 1 }, (_, i) => (
+                      <option key={i} value={i}>{i === 0 ? 'None' : `${i} (${i * FREE_TICKET_POINTS} points)`}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+          <label>
+            Name on card
+            <input value={cardHolder} onChange={(e) => setCardHolder(e.target.value)} disabled={status === 'paying'} />
+          </label>
+          <label>
+            Card number
+            <input
+              value={cardNumber}
+              onChange={(e) => setCardNumber(e.target.value)}
+              placeholder="4242 4242 4242 4242"
+              disabled={status === 'paying'}
+            />
+          </label>
+          {paymentProvider === mockPaymentProvider && (
+            <ul className="test-cards">
+              {MOCK_TEST_CARDS.map((card) => (
+                <li key={card.cardNumber}>{card.cardNumber}: {card.scenario}</li>
+              ))}
+            </ul>
+          )}
+          <div className="checkout-vouchers">
+            <label>
+              Gift card or voucher
+              <div className="voucher-entry">
+                <input
+                  value={voucherInput}
+                  onChange={(e) => setVoucherInput(e.target.value)}
+                  placeholder="XXXX-XXXX-XXXX"
+                  disabled={status === 'paying'}
+                />
+                <button type="button" className="button2" onClick={handleApplyVoucher} disabled={status === 'paying' || !voucherInput.trim()}>
+                  Apply
+                </button>
+                <button type="button" className="button2" onClick={handleCheckBalance} disabled={!voucherInput.trim()}>
+                  Check balance
+                </button>
+              </div>
+            </label>
+            {voucherMessage && <p className="voucher-message">{voucherMessage}</p>}
+            {vouchers.map(({ voucher, amount }) => (
+              <div key={voucher.code} className="applied-voucher">
+                <span>{voucher.code}: {formatPrice(amount)} off ({describeVoucher(voucher)})</span>
+                <button
+                  type="button"
+                  onClick={() => setAppliedVouchers(appliedVouchers.filter((v) => v.code !== voucher.code))}
+                  disabled={status === 'paying'}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+          {error && <p className="checkout-error">{error}</p>}
+          <div className="checkout-actions">
+            <button type="button" className="button2" onClick={handleCancel} disabled={status === 'paying'}>Cancel</button>
+            <button type="submit" className="button2" disabled={status === 'paying' || !quote}>
+              {status === 'paying' ? 'Processing payment...' : !quote || quote.total > 0 ? `Pay ${formatPrice(quote?.total ?? 0)}` : 'Book now'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Checkout;
@@ -4,17 +4,10 @@ import ReviewList from "./ReviewList";
 import MovieInfo from "./MovieInfo";
 import ShowInfo from "../movie-list/showInfo";
 import { getAppData, setAppData } from "../../utils/storage";
-import type { Review, ZaalProp } from "../../utils/fake-data";
+import type { Review, ShowProp, ZaalProp } from "../../utils/fake-data";
 import { useParams } from "react-router-dom";
-
-export interface ShowPropWithZaal {
-    id: string;
-    start_date: Date;
-    end_date: Date;
-    movieId: string;
-    zaalId: string;
-    zaal: ZaalProp;
-}
+import { getCurrentUserId } from "../../api/users";
+import { addFilmReview } from "../../api/reviews";
 
 export interface MoviePropFull {
     id: string;
@@ -23,7 +16,7 @@ export interface MoviePropFull {
     rating: string;
     genre: string;
     description: string;
-    shows: ShowPropWithZaal[];
+    shows: (ShowProp & { zaal: ZaalProp })[];
     reviews: Review[];
 }
 
@@ -58,6 +51,11 @@ const ReviewForm: React.FC<{ movieId: string; onAdded: () => void }> = ({ movieI
         const newReview = { name: username, text: text.trim(), rating, movieId };
         data.fakeReviews.push(newReview);
         setAppData(data);
+        // stored on the server too, which adds the review bonus to the user's points
+        const userId = getCurrentUserId();
+        if (userId) {
+            addFilmReview({ userId, filmId: movieId, rating, description: text.trim() }).catch(() => {});
+        }
         setText("");
         setRating(5);
         onAdded();
@@ -3,16 +3,9 @@ import { useState, useEffect } from "react";
 import ShowInfo from "./showInfo";
 import "./movie-list.css"
 import MovieInfo from "../movie-detail/MovieInfo";
-import type { Review, ZaalProp } from "../../utils/fake-data";
-
-export interface ShowPropWithZaal {
-  id: string;
-  start_date: Date;
-  end_date: Date;
-  movieId: string;
-  zaalId: string;
-  zaal: ZaalProp;
-}
+import type { Review, ShowProp, ZaalProp } from "../../utils/fake-data";
+import { mapFilmShows } from "../../api/shows";
+import type { ShowWithZaalDTO } from "../../api/shows";
 
 export interface MoviePropFull {
     id: string;
@@ -21,7 +14,7 @@ export interface MoviePropFull {
     rating: string;
     genre: string;
     description: string;
-    shows: ShowPropWithZaal[];
+    shows: (ShowProp & { zaal: ZaalProp })[];
     reviews: Review[];
 }
 
@@ -36,8 +29,8 @@ function MovieList() {
     const fetchAllMoviesFull = async () => {
         try {
             const response = await fetch("http://localhost:5275/api/Films/GetAllFull")
-            const data: MoviePropFull[] = await response.json();
-            setMoviesFull(data);
+            const data: (Omit<MoviePropFull, "shows"> & { shows: ShowWithZaalDTO[] })[] = await response.json();
+            setMoviesFull(data.map(mapFilmShows));
         } catch (error) {
             console.error("Failed to fetch movies:", error);
         }
@@ -1,41 +1,118 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import "./movie-list.css"
 import { Link } from "react-router-dom";
-import type { ZaalProp } from "../../utils/fake-data";
-import { formatDateForShowing } from "../../utils/date-fromatter";
-
-export interface ShowPropWithZaal {
-  id: string;
-  start_date: Date;
-  end_date: Date;
-  movieId: string;
-  zaalId: string;
-  zaal: ZaalProp;
-}
+import { getCurrentUserId } from "../../api/users";
+import { checkAvailability, getWaitlist, joinWaitlist, leaveWaitlist } from "../../api/waitlist";
+import type { ShowAvailability, WaitlistEntry } from "../../api/waitlist";
+import type { ShowProp, ZaalProp } from "../../utils/fake-data";
+import { formatDateForShowing, formatTime } from "../../utils/date-fromatter";
+import { filmStart } from "../../utils/scheduling";
+import { countSeats } from "../../utils/seat-layout";
+import { basePriceFor, formatPrice, lowestPrice } from "../../utils/pricing";
 
 interface ShowInfoProps {
-  shows: ShowPropWithZaal[];
+  shows: (ShowProp & { zaal: ZaalProp })[];
   button: boolean;
 }
 
+const WaitlistAction: React.FC<{ show: ShowProp & { zaal: ZaalProp } }> = ({ show }) => {
+  const userId = getCurrentUserId();
+  const [seats, setSeats] = useState(2);
+  const [entry, setEntry] = useState<WaitlistEntry>();
+  // number in line, starting at 1
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+    getWaitlist(show.id)
+      .then((waitlist) => {
+        const index = waitlist.findIndex((e) => e.userId === userId);
+        setEntry(waitlist[index]);
+        setPosition(index + 1);
+      })
+      .catch(() => {});
+  }, [show.id, userId]);
+
+  if (!userId) {
+    return <Link to="/login" className="button">Log in to join the waitlist</Link>;
+  }
+
+  const leave = async (current: WaitlistEntry) => {
+    try {
+      await leaveWaitlist(current);
+      setEntry(undefined);
+    } catch {
+      alert("Could not leave the waitlist.");
+    }
+  };
+
+  if (entry) {
+    return (
+      <div className="waitlist-action">
+        <span>On the waitlist for {entry.seats} seat(s), number {position} in line</span>
+        <button type="button" className="button" onClick={() => leave(entry)}>
+          Leave waitlist
+        </button>
+      </div>
+    );
+  }
+
+  const join = async () => {
+    try {
+      const joined = await joinWaitlist(show.id, userId, seats);
+      setPosition((await getWaitlist(show.id)).findIndex((e) => e.id === joined.id) + 1);
+      setEntry(joined);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not join the waitlist.");
+    }
+  };
+
+  return (
+    <div className="waitlist-action">
+      <label>
+        Seats:
+        <input type="number" min={1} value={seats} onChange={(e) => setSeats(Math.max(1, Number(e.target.value)))} />
+      </label>
+      <button type="button" className="button" onClick={join}>Join waitlist</button>
+    </div>
+  );
+};
+
 const ShowInfo: React.FC<ShowInfoProps> = ({ shows, button }) => {
+  const [availability, setAvailability] = useState<Record<string, ShowAvailability>>({});
+
+  useEffect(() => {
+    if (!button) return;
+    const userId = getCurrentUserId();
+    shows.filter((show) => show.zaal).forEach((show) => {
+      checkAvailability(show.id, userId)
+        .then((result) => setAvailability((s) => ({ ...s, [show.id]: result })))
+        .catch((error) => console.error("Failed to check availability:", error));
+    });
+  }, [shows, button]);
 
   return (
     <div className="voorstelling-info">
       {shows.map((show) => {
-        const totalSeats = (show.zaal?.rijen ?? 0) * (show.zaal?.stoelenPerRij ?? 0);
+        const totalSeats = show.zaal ? countSeats(show.zaal) : 0;
 
         return (
           <div key={show.id} className="voorstelling-card">
             <div>zaal: {show.zaal?.naam ?? "N/A"}</div>
             <div>Stoelen: {totalSeats}</div>
-            <div>start date: {formatDateForShowing(show.start_date)}</div>
+            <div>show start: {formatDateForShowing(show.start_date)}</div>
+            <div>film start: {formatTime(filmStart(show.start_date, show.preShowMinutes))}</div>
             <div>end date: {formatDateForShowing(show.end_date)}</div>
-            {button && show.zaal &&
+            <div>from {formatPrice(lowestPrice(basePriceFor(show.zaal, show.price), show.start_date))}</div>
+            {availability[show.id]?.soldOut && <div className="sold-out">Sold out</div>}
+            {button && show.zaal && availability[show.id]?.soldOut &&
+              <WaitlistAction show={show} />
+            }
+            {button && show.zaal && !availability[show.id]?.soldOut &&
               <Link
-                key={show.zaal.id ?? "N/A"}
-                to={`/screeningRoom/${show.zaal.id ?? ""}`}
-                title={show.zaal.id ?? "N/A"}
+                key={show.id}
+                to={`/screeningRoom/${show.id}`}
+                title={show.zaal.naam ?? "N/A"}
                 className="button"
               >
                 Reserve seats
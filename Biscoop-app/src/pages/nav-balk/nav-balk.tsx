@@ -14,6 +14,9 @@ function NavBalk({ isAuthenticated = false }: NavBalkProps) {
         { to: "/movie_panel", label: "manage-movies", emoji: "📎"},
         { to: "/zaal_panel", label: "manage-rooms", emoji: "📎"},
         { to: "/show_panel", label: "manage-shows", emoji: "📎"},
+        { to: "/voucher_panel", label: "manage-vouchers", emoji: "📎"},
+        { to: "/promotion_panel", label: "manage-promotions", emoji: "📎"},
+        { to: "/check_in", label: "check-in", emoji: "🎫"},
         { to: "/ScreeningRoom", label: "room", emoji: "🏠"},
         { to: "/home", label: "home", emoji: "🏠"},
     ]
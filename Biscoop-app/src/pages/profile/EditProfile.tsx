@@ -165,7 +165,8 @@ const EditProfile: React.FC = () => {
       setUser({
         ...user,
         name: fullName,
-        email: updatedProfile.email
+        email: updatedProfile.email,
+        emailVerified: updatedProfile.emailVerified
       });
 
       // Save extended profile data to localStorage (bio and genre only)
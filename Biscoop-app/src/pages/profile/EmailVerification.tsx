@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { sendEmailVerification, verifyEmail } from '../../api/users';
+
+interface EmailVerificationProps {
+  userId: string;
+  verified: boolean;
+  onVerified: () => void;
+}
+
+// Email-domain promotions (e.g. student discounts) only apply once the address is verified
+const EmailVerification: React.FC<EmailVerificationProps> = ({ userId, verified, onVerified }) => {
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (verified) {
+    return <div className="email-verified">✓ Email verified</div>;
+  }
+
+  const handleSend = async () => {
+    try {
+      setBusy(true);
+      await sendEmailVerification(userId);
+      setCodeSent(true);
+    } catch {
+      alert('Code not sent, something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setBusy(true);
+      await verifyEmail(userId, code);
+      onVerified();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Email not verified, something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="email-verification">
+      {codeSent ? (
+        <form onSubmit={handleVerify}>
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Code from the email"
+            inputMode="numeric"
+          />
+          <button type="submit" className="btn-secondary" disabled={busy || !code.trim()}>
+            Verify
+          </button>
+          <button type="button" className="btn-secondary" disabled={busy} onClick={handleSend}>
+            Send again
+          </button>
+        </form>
+      ) : (
+        <button className="btn-secondary" disabled={busy} onClick={handleSend}>
+          Verify email
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EmailVerification;
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { getUserProfile, getCurrentUserId } from '../../api/users';
+import { getPoints } from '../../api/loyalty';
+import type { PointsEntry } from '../../api/loyalty';
+import { useUserContext } from '../../context/UserContext';
+import EmailVerification from './EmailVerification';
 import type { User, Movie } from '../../types';
 import './profile.css';
 
@@ -29,7 +33,9 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
     bio: '',
     genre: ''
   });
+  const [pointsHistory, setPointsHistory] = useState<PointsEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const { setUser } = useUserContext();
   
   useEffect(() => {
     // Always reload from database when component mounts or location changes
@@ -44,6 +50,14 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
       return;
     }
 
+    // the points don't hold up the rest of the profile
+    getPoints(userId)
+      .then(({ balance, history }) => {
+        setUser((u) => ({ ...u, points: balance }));
+        setPointsHistory(history);
+      })
+      .catch(() => setPointsHistory([]));
+
     try {
       setLoading(true);
       // ALWAYS load from database - this is the source of truth
@@ -55,6 +69,7 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
         lastName: profile.lastName || '',
         email: profile.email,
       });
+      setUser((u) => ({ ...u, emailVerified: profile.emailVerified }));
 
       // Load extended profile data from localStorage (bio, genre)
       const savedProfile = localStorage.getItem('userProfile');
@@ -99,6 +114,7 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
     }
   };
 
+  const userId = getCurrentUserId();
   const displayName = `${profileData.firstName} ${profileData.lastName}`.trim() || user.name;
   
   const stats = [
@@ -137,6 +153,13 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
             <div className="profile-username">@{extendedProfile.username}</div>
           )}
           <div className="profile-email">{profileData.email}</div>
+          {userId && (
+            <EmailVerification
+              userId={userId}
+              verified={!!user.emailVerified}
+              onVerified={() => setUser((u) => ({ ...u, emailVerified: true }))}
+            />
+          )}
           {extendedProfile.bio && (
             <div className="profile-bio">{extendedProfile.bio}</div>
           )}
@@ -159,6 +182,32 @@ const Profile: React.FC<ProfileProps> = ({ user, movies, onLogout }) => {
           ))}
         </div>
 
+        <div className="section-title">Points History</div>
+        <div className="activity-list">
+          {pointsHistory.length > 0 ? (
+            pointsHistory.slice(0, 10).map((entry) => (
+              <div key={entry.id} className="activity-item points-item">
+                <div className="activity-details">
+                  <div className="activity-title">{entry.description}</div>
+                  <div className="activity-date">
+                    {new Date(entry.createdAt).toLocaleDateString('en-GB')}
+                    {entry.expiresAt && ` · expires ${new Date(entry.expiresAt).toLocaleDateString('en-GB')}`}
+                  </div>
+                </div>
+                <span className={entry.points > 0 ? 'points-amount' : 'points-amount negative'}>
+                  {entry.points > 0 ? `+${entry.points}` : entry.points}
+                </span>
+              </div>
+            ))
+          ) : (
+            <div className="no-activity">
+              <p style={{ textAlign: 'center', color: '#9ab0c9', padding: '1rem' }}>
+                No points yet. Book a show or write a review to start earning!
+              </p>
+            </div>
+          )}
+        </div>
+
         <div className="section-title">Recent Activity</div>
         <div className="activity-list">
           {movies.length > 0 ? (
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import './ticket.css';
+import { Link, useParams } from 'react-router-dom';
+import QRCode from 'qrcode';
+import { getReservationById } from '../../api/reservations';
+import type { UserBooking } from '../../api/users';
+import { getOrderForReservation } from '../../api/payments';
+import type { PaidOrder } from '../../api/payments';
+import { getTicketCode } from '../../api/tickets';
+import { formatDateForShowing } from '../../utils/date-fromatter';
+import { TICKET_TYPES, formatPrice } from '../../utils/pricing';
+
+// the QR code is drawn in the browser, nothing is sent to an outside service
+async function loadTicket(reservationId: string): Promise<{ booking: UserBooking; code: string; qrCode: string; order?: PaidOrder }> {
+  const booking = await getReservationById(reservationId);
+  const code = await getTicketCode(booking.id);
+  const qrCode = await QRCode.toDataURL(code, { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+  // the ticket is valid without the price on it
+  const order = await getOrderForReservation(booking.id).catch(() => undefined);
+  return { booking, code, qrCode, order };
+}
+
+const Ticket: React.FC = () => {
+  const { reservationId } = useParams();
+  const [booking, setBooking] = useState<UserBooking>();
+  const [code, setCode] = useState('');
+  const [qrCode, setQrCode] = useState('');
+  const [order, setOrder] = useState<PaidOrder>();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!reservationId) return;
+    loadTicket(reservationId)
+      .then((ticket) => {
+        setBooking(ticket.booking);
+        setCode(ticket.code);
+        setQrCode(ticket.qrCode);
+        setOrder(ticket.order);
+      })
+      .catch(() => setError('This ticket could not be found.'));
+  }, [reservationId]);
+
+  if (error || !reservationId) {
+    return <p className="ticket-message">{error || 'No ticket selected.'} <Link to="/bookings">Back to your bookings</Link></p>;
+  }
+
+  if (!booking) {
+    return <p className="ticket-message">Loading ticket...</p>;
+  }
+
+  return (
+    <div className="ticket-page">
+      <div className="ticket">
+        <div className="ticket-info">
+          <span className="ticket-brand">Biscoop e-ticket</span>
+          <h2>{booking.show.film.name}</h2>
+          <dl>
+            <dt>Room</dt>
+            <dd>{booking.show.zaal.naam}</dd>
+            <dt>Starts</dt>
+            <dd>{formatDateForShowing(booking.show.begintijd)}</dd>
+            <dt>Seats</dt>
+            <dd>{booking.seats.map((s) => s.stoelnummer).join(', ')}</dd>
+            {order && (
+              <>
+                <dt>Tickets</dt>
+                <dd>
+                  {TICKET_TYPES.filter(({ type }) => order.tickets[type] > 0)
+                    .map(({ type, label }) => `${order.tickets[type]} × ${label}`)
+                    .join(', ')}
+                </dd>
+                <dt>Paid</dt>
+                <dd>{formatPrice(order.breakdown.total)}</dd>
+              </>
+            )}
+          </dl>
+          <span className="ticket-reference">Reference {booking.id}</span>
+        </div>
+        <div className="ticket-qr">
+          {qrCode && <img src={qrCode} alt={`QR code for reservation ${booking.id}`} />}
+          <span>Show this code at the entrance</span>
+          <code className="ticket-code">{code}</code>
+        </div>
+      </div>
+
+      <div className="ticket-actions">
+        <Link to="/bookings" className="btn btn-secondary">Back to bookings</Link>
+        <button type="button" className="btn" onClick={() => window.print()}>Print ticket</button>
+      </div>
+    </div>
+  );
+};
+
+export default Ticket;
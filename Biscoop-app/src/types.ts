@@ -4,6 +4,7 @@ export interface User {
   name: string;
   email: string;
   points: number;
+  emailVerified?: boolean;
 }
 
 // Movie types
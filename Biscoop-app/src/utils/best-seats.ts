@@ -0,0 +1,77 @@
+import type { ZaalProp } from "./fake-data";
+import { buildSeatMap } from "./seat-layout";
+import type { SeatCellType } from "./seat-layout";
+
+// Picks the best free seats for a group. Every seat gets a score (lower is better)
+// from its distance to the ideal viewing row and to the center of its row. A group
+// gets the best contiguous block in one row; when no row has room for everyone the
+// group is split over the best blocks that are left.
+
+// about two thirds of the way back from the screen
+const IDEAL_ROW_POSITION = 2 / 3;
+// being in the wrong row is worse than sitting a bit off-center
+const ROW_WEIGHT = 1.5;
+// spaces that are only handed out by picking them on the seat map
+const BLOCKED_TYPES: SeatCellType[] = ["wheelchair"];
+
+interface Block {
+  seats: string[];
+  score: number;
+}
+
+// runs of free seats next to each other; aisles, gaps and taken seats break a run
+function freeRuns(zaal: ZaalProp, unavailable: Set<string>): { label: string; score: number }[][] {
+  const seatMap = buildSeatMap(zaal);
+  const idealRow = (seatMap.length - 1) * IDEAL_ROW_POSITION;
+  const center = (zaal.stoelenPerRij - 1) / 2;
+  const runs: { label: string; score: number }[][] = [];
+
+  seatMap.forEach((row, rowIndex) => {
+    let run: { label: string; score: number }[] = [];
+    row.cells.forEach((cell, col) => {
+      if (!cell.label || unavailable.has(cell.label) || BLOCKED_TYPES.includes(cell.type)) {
+        if (run.length > 0) runs.push(run);
+        run = [];
+        return;
+      }
+      const rowDistance = Math.abs(rowIndex - idealRow) / Math.max(seatMap.length, 1);
+      const colDistance = Math.abs(col - center) / Math.max(zaal.stoelenPerRij, 1);
+      run.push({ label: cell.label, score: rowDistance * ROW_WEIGHT + colDistance });
+    });
+    if (run.length > 0) runs.push(run);
+  });
+  return runs;
+}
+
+function bestBlock(runs: { label: string; score: number }[][], size: number): Block | undefined {
+  let best: Block | undefined;
+  for (const run of runs) {
+    for (let start = 0; start + size <= run.length; start++) {
+      const seats = run.slice(start, start + size);
+      const score = seats.reduce((sum, seat) => sum + seat.score, 0) / size;
+      if (!best || score < best.score) best = { seats: seats.map((seat) => seat.label), score };
+    }
+  }
+  return best;
+}
+
+// Returns the seat labels to preselect, or null when there aren't enough free seats
+export function findBestSeats(zaal: ZaalProp, count: number, unavailable: string[]): string[] | null {
+  const taken = new Set(unavailable);
+  const picked: string[] = [];
+  let remaining = count;
+
+  while (remaining > 0) {
+    const runs = freeRuns(zaal, taken);
+    const longestRun = Math.max(0, ...runs.map((run) => run.length));
+    if (longestRun === 0) return null;
+
+    // keep as many people together as possible
+    const block = bestBlock(runs, Math.min(remaining, longestRun));
+    if (!block) return null;
+    block.seats.forEach((seat) => taken.add(seat));
+    picked.push(...block.seats);
+    remaining -= block.seats.length;
+  }
+  return picked;
+}
@@ -0,0 +1,36 @@
+// When a booking can be cancelled and how much of the payment comes back:
+// - until FREE_CANCELLATION_HOURS before begintijd: everything
+// - after that until the show starts: PARTIAL_REFUND_PERCENTAGE of it
+// - once the show has started: no cancellation
+
+export const CANCELLATION_POLICY = {
+  freeCancellationHours: 24,
+  partialRefundPercentage: 50,
+};
+
+export type CancellationKind = "free" | "partial" | "none";
+
+export interface CancellationTerms {
+  kind: CancellationKind;
+  // cents
+  refund: number;
+  // until when the current terms apply
+  until: Date;
+}
+
+export function getCancellationTerms(begintijd: Date | string, paid: number, now: Date = new Date()): CancellationTerms {
+  const start = new Date(begintijd);
+  const freeUntil = new Date(start.getTime() - CANCELLATION_POLICY.freeCancellationHours * 60 * 60 * 1000);
+
+  if (now < freeUntil) {
+    return { kind: "free", refund: paid, until: freeUntil };
+  }
+  if (now < start) {
+    return {
+      kind: "partial",
+      refund: Math.round((paid * CANCELLATION_POLICY.partialRefundPercentage) / 100),
+      until: start,
+    };
+  }
+  return { kind: "none", refund: 0, until: start };
+}
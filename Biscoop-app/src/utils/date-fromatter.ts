@@ -12,3 +12,30 @@ export function formatDateForShowing(date: Date | string): string {
 
     return `${day}/${month}/${year} - ${hours}:${minutes}`;
 }
+
+// Only the time, HH:mm
+export function formatTime(date: Date | string): string {
+    if (!date) return "";
+
+    const d = typeof date === "string" ? new Date(date) : date;
+
+    return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+// Show times are the cinema's wall-clock time: sent to the server without an
+// offset (yyyy-mm-ddTHH:mm:ss) and read back the same way by new Date()
+export function toLocalDateTime(date: Date | string): string {
+    const d = typeof date === "string" ? new Date(date) : date;
+    const pad = (n: number) => String(n).padStart(2, "0");
+
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+// Remaining time as m:ss, e.g. for a seat hold countdown
+export function formatCountdown(ms: number): string {
+    const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+    return `${minutes}:${seconds}`;
+}
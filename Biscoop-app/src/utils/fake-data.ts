@@ -4,6 +4,15 @@ export interface ZaalProp {
   naam: string;
   rijen: number;
   stoelenPerRij: number;
+  // seat map, see utils/seat-layout.ts; without it every cell is a seat
+  layout?: string;
+  // seat labels: row A nearest the screen, seat 1 on the left (as seen from the seats) by default
+  firstRowAtScreen?: boolean;
+  numberFromLeft?: boolean;
+  // ticket price in euros for shows in this room, see utils/pricing.ts
+  basePrice?: number;
+  // minutes to clean the room between shows, see utils/scheduling.ts
+  cleaningMinutes?: number;
 }
 
 export interface MovieProp {
@@ -28,13 +37,36 @@ export interface ShowProp {
   end_date: Date;
   movieId: string;
   zaalId: string;
+  // overrides the room's base price
+  price?: number;
+  // set when the show is part of a recurring series
+  seriesId?: string;
+  // ads and trailers before the film and the intermission (0 for none), as saved
+  // on the server; left out on new shows, see SCHEDULING_RULES for the defaults
+  preShowMinutes?: number;
+  intermissionMinutes?: number;
 }
 
 // ----- Fake Zalen -----
 export const fakeZalen: ZaalProp[] = [
   { id: "zaal-1", naam: "Grote Zaal", rijen: 12, stoelenPerRij: 20 },
   { id: "zaal-2", naam: "Middelgrote Zaal", rijen: 10, stoelenPerRij: 15 },
-  { id: "zaal-3", naam: "Kleine Zaal", rijen: 8, stoelenPerRij: 10 },
+  {
+    id: "zaal-3",
+    naam: "Kleine Zaal",
+    rijen: 8,
+    stoelenPerRij: 10,
+    layout: [
+      "_SSSASSSS_",
+      "SSSSASSSSS",
+      "SSSSASSSSS",
+      "PPPPAPPPPP",
+      "PPPPAPPPPP",
+      "SSSSASSSSS",
+      "WCSSASSSCW",
+      "LLLLALLLL_",
+    ].join("\n"),
+  },
 ];
 
 // ----- Fake Movies -----
@@ -0,0 +1,121 @@
+import type { UserBooking } from "../api/users";
+
+// iCalendar (.ics) files for bookings. Show times are already the local time of the
+// cinema, they are written as they are with the Europe/Amsterdam timezone attached,
+// so calendars show the right time wherever they are.
+
+const TIME_ZONE = "Europe/Amsterdam";
+// minutes before the show
+const REMINDER_MINUTES = 60;
+
+// Standard CET/CEST definition, daylight saving from the last Sunday of March to the last Sunday of October
+const AMSTERDAM_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// 2026-10-19T20:00:00 as the server sends it, without an offset
+const LOCAL_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/;
+
+// 20261019T200000, the digits of the show time. Not through Date, which would read
+// the time in the browser's timezone.
+function toAmsterdamTime(begintijd: string): string {
+  const match = LOCAL_TIME.exec(begintijd);
+  if (!match) throw new Error(`Not a show time: ${begintijd}`);
+  const [, year, month, day, hour, minute, second = "00"] = match;
+  return `${year}${month}${day}T${hour}${minute}${second}`;
+}
+
+// 20261019T180000Z
+function toUtcTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+// Lines may be 75 bytes at most, longer ones continue on the next line after a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const char of line) {
+    // 74 leaves room for the leading space of a continued line
+    if (encoder.encode(chunk + char).length > 74) {
+      chunks.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+export function ticketUrl(reservationId: string): string {
+  return `${window.location.origin}/ticket/${reservationId}`;
+}
+
+function bookingEvent(booking: UserBooking): string[] {
+  const seats = booking.seats.map((s) => s.stoelnummer).join(", ");
+  const url = ticketUrl(booking.id);
+  return [
+    "BEGIN:VEVENT",
+    `UID:${booking.id}@biscoop`,
+    `DTSTAMP:${toUtcTime(new Date())}`,
+    `DTSTART;TZID=${TIME_ZONE}:${toAmsterdamTime(booking.show.begintijd)}`,
+    `DTEND;TZID=${TIME_ZONE}:${toAmsterdamTime(booking.show.eindtijd)}`,
+    `SUMMARY:${escapeText(booking.show.film.name)}`,
+    `LOCATION:${escapeText(`Biscoop, ${booking.show.zaal.naam}`)}`,
+    `DESCRIPTION:${escapeText(`Room: ${booking.show.zaal.naam}\nSeats: ${seats}\nYour ticket: ${url}`)}`,
+    `URL:${url}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(`${booking.show.film.name} starts soon`)}`,
+    `TRIGGER:-PT${REMINDER_MINUTES}M`,
+    "END:VALARM",
+    "END:VEVENT",
+  ];
+}
+
+// One calendar with an event per booking
+export function createCalendar(bookings: UserBooking[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Biscoop//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Biscoop bookings",
+    ...AMSTERDAM_VTIMEZONE,
+    ...bookings.flatMap(bookingEvent),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadCalendar(bookings: UserBooking[], fileName: string) {
+  const blob = new Blob([createCalendar(bookings)], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
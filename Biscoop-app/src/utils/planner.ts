@@ -0,0 +1,205 @@
+import type { MovieProp, ShowProp, ZaalProp } from "./fake-data";
+import { countSeats } from "./seat-layout";
+import {
+  SCHEDULING_RULES,
+  cleaningMinutesFor,
+  findConflicts,
+  hasErrors,
+  openingPeriod,
+  showMinutes,
+  withinOpeningHours,
+} from "./scheduling";
+import type { SchedulingRules } from "./scheduling";
+
+// Suggests a week's programme from the number of screenings each film should get.
+// Shows are placed one at a time, every film gets one per round, the most popular
+// film first, so it has the first pick of the slots. A slot is scored on:
+// - prime time: good for popular films, bad for the others
+// - room size: popular films in big rooms, the rest in small ones
+// - spreading a film over the week instead of one day
+// - leaving no idle time in the room
+// Age-restricted films are never put in a family slot. The existing programme is
+// kept, new shows are planned around it without overlaps and with cleaning time.
+
+export const PLANNER_RULES = {
+  // "HH:mm", shows starting in between are prime time
+  primeTimeStart: "19:00",
+  primeTimeEnd: "21:30",
+  // shows starting before this are family slots
+  familySlotsUntil: "18:00",
+  // films for older children than this stay out of family slots
+  familyAgeLimit: 12,
+  // shows start on the quarter
+  startStepMinutes: 15,
+};
+
+export type PlannerRules = typeof PLANNER_RULES;
+
+export interface PlannerTarget {
+  movieId: string;
+  // screenings in the week
+  screenings: number;
+}
+
+export interface WeekPlan {
+  shows: ShowProp[];
+  // films that didn't get all their screenings
+  shortfalls: { movieId: string; planned: number; target: number }[];
+}
+
+const MINUTE = 60 * 1000;
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// The minimum age for a rating, both MPAA ("PG-13", "R") and Kijkwijzer ("12", "16") style
+export function minimumAge(rating: string): number {
+  const value = rating.trim().toUpperCase();
+  const age = value.match(/\d+/);
+  if (value === "R") return 17;
+  if (age) return Number(age[0]);
+  return 0;
+}
+
+export const isAgeRestricted = (movie: MovieProp, rules: PlannerRules = PLANNER_RULES) =>
+  minimumAge(movie.rating) > rules.familyAgeLimit;
+
+export function isPrimeTime(start: Date, rules: PlannerRules = PLANNER_RULES): boolean {
+  const minutes = minutesOfDay(start);
+  return minutes >= toMinutes(rules.primeTimeStart) && minutes <= toMinutes(rules.primeTimeEnd);
+}
+
+export function isFamilySlot(
+  start: Date,
+  rules: PlannerRules = PLANNER_RULES,
+  scheduling: SchedulingRules = SCHEDULING_RULES
+): boolean {
+  const minutes = minutesOfDay(start);
+  const { opensAt } = openingPeriod(scheduling);
+  return minutes >= opensAt && minutes < toMinutes(rules.familySlotsUntil);
+}
+
+// the next start on the step, at or after `time`
+function nextStep(time: number, step: number): number {
+  return Math.ceil(time / (step * MINUTE)) * step * MINUTE;
+}
+
+export function planWeek(
+  weekStart: Date,
+  targets: PlannerTarget[],
+  movies: MovieProp[],
+  rooms: ZaalProp[],
+  existing: ShowProp[],
+  rules: PlannerRules = PLANNER_RULES,
+  scheduling: SchedulingRules = SCHEDULING_RULES,
+  now: Date = new Date()
+): WeekPlan {
+  const { opensAt } = openingPeriod(scheduling);
+  const step = rules.startStepMinutes;
+
+  // most screenings wanted = most popular
+  const films = targets
+    .filter((t) => t.screenings > 0 && movies.some((m) => m.id === t.movieId))
+    .sort((a, b) => b.screenings - a.screenings)
+    .map((t, i, all) => ({
+      ...t,
+      movie: movies.find((m) => m.id === t.movieId)!,
+      popularity: all.length === 1 ? 1 : 1 - i / (all.length - 1),
+    }));
+  const biggest = Math.max(...rooms.map(countSeats), 1);
+
+  const days = Array.from({ length: 7 }, (_, day) => {
+    const date = new Date(weekStart);
+    date.setDate(date.getDate() + day);
+    date.setHours(0, opensAt, 0, 0);
+    return date;
+  });
+
+  const planned: ShowProp[] = [];
+  const programme = () => [...existing, ...planned];
+
+  // the best slot for one more screening of the film, if there is any
+  const bestSlot = (film: (typeof films)[number]) => {
+    let best: { show: ShowProp; score: number } | undefined;
+    const length = showMinutes(film.movie.duration, {}, scheduling) * MINUTE;
+
+    for (const zaal of rooms) {
+      const size = countSeats(zaal) / biggest;
+      const buffer = cleaningMinutesFor(zaal, scheduling) * MINUTE;
+      const roomShows = programme().filter((s) => s.zaalId === zaal.id);
+
+      for (const opening of days) {
+        // right after opening, after every show in the room and on the prime time and family boundaries
+        const ends = roomShows
+          .map((s) => new Date(s.end_date).getTime() + buffer)
+          .filter((t) => t >= opening.getTime() && t < opening.getTime() + 24 * 60 * MINUTE);
+        const anchors = [rules.primeTimeStart, rules.familySlotsUntil].map((hhmm) => {
+          const date = new Date(opening);
+          date.setHours(0, toMinutes(hhmm), 0, 0);
+          return date.getTime();
+        });
+        const sameDay = programme().filter(
+          (s) => s.movieId === film.movieId && new Date(s.start_date).toDateString() === opening.toDateString()
+        ).length;
+
+        for (const candidate of [opening.getTime(), ...ends, ...anchors]) {
+          const start = new Date(nextStep(candidate, step));
+          const show: ShowProp = {
+            id: "",
+            movieId: film.movieId,
+            zaalId: zaal.id,
+            start_date: start,
+            end_date: new Date(start.getTime() + length),
+          };
+          if (start <= now || !withinOpeningHours(show.start_date, show.end_date, scheduling)) continue;
+          if (isAgeRestricted(film.movie, rules) && isFamilySlot(start, rules, scheduling)) continue;
+          if (hasErrors(findConflicts(show, roomShows, scheduling, zaal))) continue;
+
+          const previousEnd = Math.max(
+            opening.getTime(),
+            ...roomShows.map((s) => new Date(s.end_date).getTime() + buffer).filter((t) => t <= start.getTime())
+          );
+          const idle = (start.getTime() - previousEnd) / MINUTE;
+          const score =
+            (isPrimeTime(start, rules) ? (film.popularity - 0.5) * 4 : 0) +
+            (1 - Math.abs(size - film.popularity)) * 2 -
+            sameDay * 1.5 -
+            idle / 240;
+          if (!best || score > best.score) best = { show, score };
+        }
+      }
+    }
+    return best?.show;
+  };
+
+  // rounds until every film has its screenings or doesn't fit anymore
+  const full = new Set<string>();
+  for (let placed = true; placed; ) {
+    placed = false;
+    for (const film of films) {
+      if (full.has(film.movieId)) continue;
+      const show = planned.filter((s) => s.movieId === film.movieId).length < film.screenings && bestSlot(film);
+      if (!show) {
+        full.add(film.movieId);
+        continue;
+      }
+      planned.push(show);
+      placed = true;
+    }
+  }
+
+  return {
+    shows: planned.sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime()),
+    shortfalls: films
+      .map((f) => ({
+        movieId: f.movieId,
+        planned: planned.filter((s) => s.movieId === f.movieId).length,
+        target: f.screenings,
+      }))
+      .filter((f) => f.planned < f.target),
+  };
+}
@@ -0,0 +1,129 @@
+import type { ZaalProp } from "./fake-data";
+import { cellLabel } from "./seat-layout";
+import type { SeatCellType } from "./seat-layout";
+
+// Ticket prices are worked out in cents so the totals add up exactly.
+// A show's base price comes from the show itself, else its room, else DEFAULT_BASE_PRICE.
+// On top of that: a ticket type discount, a time-of-day rule and a surcharge per seat category.
+// This is the preview shown while choosing tickets, the server prices the order itself
+// with the same rules (BioscoopServer/Services/Pricing).
+
+export type TicketType = "adult" | "child" | "senior" | "student";
+
+export type TicketCounts = Record<TicketType, number>;
+
+export const DEFAULT_BASE_PRICE = 11.5;
+
+export const TICKET_TYPES: { type: TicketType; label: string; factor: number }[] = [
+  { type: "adult", label: "Adult", factor: 1 },
+  { type: "child", label: "Child (under 12)", factor: 0.7 },
+  { type: "senior", label: "Senior (65+)", factor: 0.8 },
+  { type: "student", label: "Student", factor: 0.85 },
+];
+
+// per seat, in cents
+export const SEAT_SURCHARGES: Partial<Record<SeatCellType, number>> = {
+  premium: 250,
+  loveseat: 400,
+};
+
+// shows starting before 17:00 on a weekday
+const MATINEE_END_HOUR = 17;
+const MATINEE_DISCOUNT = 0.15;
+// per ticket on Saturday and Sunday, in cents
+const WEEKEND_SURCHARGE = 150;
+
+export const NO_TICKETS: TicketCounts = { adult: 0, child: 0, senior: 0, student: 0 };
+
+export interface PriceLine {
+  label: string;
+  quantity: number;
+  // cents, negative for discounts
+  unitPrice: number;
+  amount: number;
+  // why a discount applies, shown under the line
+  note?: string;
+}
+
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  total: number;
+}
+
+export function basePriceFor(zaal: ZaalProp | undefined, showPrice?: number): number {
+  return Math.round((showPrice ?? zaal?.basePrice ?? DEFAULT_BASE_PRICE) * 100);
+}
+
+export function ticketCount(tickets: TicketCounts): number {
+  return Object.values(tickets).reduce((sum, count) => sum + count, 0);
+}
+
+function isWeekend(start: Date): boolean {
+  return start.getDay() === 0 || start.getDay() === 6;
+}
+
+function isMatinee(start: Date): boolean {
+  return !isWeekend(start) && start.getHours() < MATINEE_END_HOUR;
+}
+
+export function ticketPrice(basePrice: number, type: TicketType): number {
+  const factor = TICKET_TYPES.find((t) => t.type === type)?.factor ?? 1;
+  return Math.round(basePrice * factor);
+}
+
+function line(label: string, quantity: number, unitPrice: number): PriceLine {
+  return { label, quantity, unitPrice, amount: quantity * unitPrice };
+}
+
+// seatTypes holds the category of every chosen seat, can be empty before seats are picked
+export function priceTickets(
+  basePrice: number,
+  start: Date | string,
+  tickets: TicketCounts,
+  seatTypes: SeatCellType[] = []
+): PriceBreakdown {
+  const startDate = new Date(start);
+  const lines: PriceLine[] = [];
+
+  for (const { type, label } of TICKET_TYPES) {
+    if (tickets[type] > 0) lines.push(line(label, tickets[type], ticketPrice(basePrice, type)));
+  }
+
+  const ticketsTotal = lines.reduce((sum, l) => sum + l.amount, 0);
+  const count = ticketCount(tickets);
+  if (count > 0 && isMatinee(startDate)) {
+    lines.push(line("Matinee discount", 1, -Math.round(ticketsTotal * MATINEE_DISCOUNT)));
+  }
+  if (count > 0 && isWeekend(startDate)) {
+    lines.push(line("Weekend surcharge", count, WEEKEND_SURCHARGE));
+  }
+
+  for (const [type, surcharge] of Object.entries(SEAT_SURCHARGES) as [SeatCellType, number][]) {
+    const seats = seatTypes.filter((t) => t === type).length;
+    if (seats > 0) lines.push(line(`${cellLabel(type)} surcharge`, seats, surcharge));
+  }
+
+  return { lines, total: lines.reduce((sum, l) => sum + l.amount, 0) };
+}
+
+// Takes `amount` cents off an order as an extra line, never below a total of 0
+export function addDiscount(breakdown: PriceBreakdown, label: string, amount: number, note?: string): PriceBreakdown {
+  const discount = Math.min(amount, breakdown.total);
+  if (discount <= 0) return breakdown;
+  return {
+    lines: [...breakdown.lines, { ...line(label, 1, -discount), note }],
+    total: breakdown.total - discount,
+  };
+}
+
+// the cheapest single ticket for a show, for "from €x" on listings
+export function lowestPrice(basePrice: number, start: Date | string): number {
+  return Math.min(
+    ...TICKET_TYPES.map(({ type }) => priceTickets(basePrice, start, { ...NO_TICKETS, [type]: 1 }).total)
+  );
+}
+
+export function formatPrice(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  return `${sign}€${(Math.abs(cents) / 100).toFixed(2)}`;
+}
@@ -0,0 +1,154 @@
+import { TICKET_TYPES, addDiscount, formatPrice, ticketPrice } from "./pricing";
+import type { PriceBreakdown, TicketCounts, TicketType } from "./pricing";
+
+// Rule-based promotions, e.g. "2-for-1 on Tuesdays" or "10% off horror films in October".
+// A promotion applies when all of its conditions match; a condition that is left
+// empty always matches. When several promotions apply, the customer gets the one
+// that takes the most off, never more than one per order.
+
+export interface PromotionConditions {
+  // 0 = Sunday ... 6 = Saturday, of the show
+  weekdays: number[];
+  genres: string[];
+  filmIds: string[];
+  roomIds: string[];
+  // the tickets the effect is worked out on
+  ticketTypes: TicketType[];
+  // the account's email has to end in one of these, e.g. a university domain. Only
+  // counts once the user has verified the address (api/users verifyEmail)
+  emailDomains: string[];
+}
+
+export type PromotionEffect =
+  | { kind: "percentage"; percent: number }
+  // cents off the order
+  | { kind: "fixed"; amount: number }
+  // every `every`-th ticket free, the cheapest ones first: 2 is 2-for-1
+  | { kind: "free-ticket"; every: number };
+
+export interface Promotion {
+  id: string;
+  name: string;
+  // shown to the customer next to the discount
+  description: string;
+  active: boolean;
+  // the promotion runs from/until these moments, open-ended when left out
+  startsAt?: string;
+  endsAt?: string;
+  conditions: PromotionConditions;
+  effect: PromotionEffect;
+}
+
+export const NO_CONDITIONS: PromotionConditions = {
+  weekdays: [],
+  genres: [],
+  filmIds: [],
+  roomIds: [],
+  ticketTypes: [],
+  emailDomains: [],
+};
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// What is being bought, as far as promotions care
+export interface PromotionContext {
+  start: Date | string;
+  filmId: string;
+  genre: string;
+  roomId: string;
+  tickets: TicketCounts;
+  basePrice: number;
+  // left out while the address isn't verified
+  email?: string;
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  // cents
+  amount: number;
+}
+
+export function isRunning(promotion: Promotion, now: Date = new Date()): boolean {
+  if (!promotion.active) return false;
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return false;
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return false;
+  return true;
+}
+
+const matchesAny = (allowed: string[], value: string) =>
+  allowed.length === 0 || allowed.some((a) => a.toLowerCase() === value.toLowerCase());
+
+function conditionsMatch(conditions: PromotionConditions, context: PromotionContext): boolean {
+  const start = new Date(context.start);
+  const email = context.email?.toLowerCase() ?? "";
+  return (
+    (conditions.weekdays.length === 0 || conditions.weekdays.includes(start.getDay())) &&
+    matchesAny(conditions.genres, context.genre) &&
+    matchesAny(conditions.filmIds, context.filmId) &&
+    matchesAny(conditions.roomIds, context.roomId) &&
+    (conditions.emailDomains.length === 0 ||
+      conditions.emailDomains.some((d) => email.endsWith(`@${d.toLowerCase().replace(/^@/, "")}`)))
+  );
+}
+
+// The price of every ticket the promotion is about, cheapest first
+function matchingTicketPrices(conditions: PromotionConditions, context: PromotionContext): number[] {
+  return TICKET_TYPES.filter(({ type }) => conditions.ticketTypes.length === 0 || conditions.ticketTypes.includes(type))
+    .flatMap(({ type }) => Array<number>(context.tickets[type]).fill(ticketPrice(context.basePrice, type)))
+    .sort((a, b) => a - b);
+}
+
+// What a promotion takes off, 0 when it doesn't apply
+export function promotionDiscount(promotion: Promotion, context: PromotionContext): number {
+  if (!conditionsMatch(promotion.conditions, context)) return 0;
+  const prices = matchingTicketPrices(promotion.conditions, context);
+  if (prices.length === 0) return 0;
+
+  const { effect } = promotion;
+  switch (effect.kind) {
+    case "percentage":
+      return Math.round((prices.reduce((sum, p) => sum + p, 0) * effect.percent) / 100);
+    case "fixed":
+      return effect.amount;
+    case "free-ticket":
+      return effect.every > 0
+        ? prices.slice(0, Math.floor(prices.length / effect.every)).reduce((sum, p) => sum + p, 0)
+        : 0;
+  }
+}
+
+export function describeEffect(effect: PromotionEffect): string {
+  switch (effect.kind) {
+    case "percentage":
+      return `${effect.percent}% off`;
+    case "fixed":
+      return `${formatPrice(effect.amount)} off`;
+    case "free-ticket":
+      return `${effect.every}-for-${effect.every - 1}`;
+  }
+}
+
+// The running promotion that takes the most off this order
+export function bestPromotion(
+  promotions: Promotion[],
+  context: PromotionContext,
+  now: Date = new Date()
+): AppliedPromotion | undefined {
+  let best: AppliedPromotion | undefined;
+  for (const promotion of promotions.filter((p) => isRunning(p, now))) {
+    const amount = promotionDiscount(promotion, context);
+    if (amount > 0 && (!best || amount > best.amount)) best = { promotion, amount };
+  }
+  return best;
+}
+
+// Adds the best promotion to a price breakdown, with the reason it applies
+export function applyPromotions(
+  breakdown: PriceBreakdown,
+  promotions: Promotion[],
+  context: PromotionContext
+): PriceBreakdown {
+  const best = bestPromotion(promotions, context);
+  if (!best) return breakdown;
+  return addDiscount(breakdown, `Promotion: ${best.promotion.name}`, best.amount, best.promotion.description);
+}
@@ -0,0 +1,173 @@
+import type { MovieProp, ShowProp, ZaalProp } from "./fake-data";
+import { formatTime } from "./date-fromatter";
+import { SCHEDULING_RULES, findConflicts, hasErrors, showEnd } from "./scheduling";
+import type { ScheduleConflict } from "./scheduling";
+import { dateKey } from "./show-series";
+
+// The programme as CSV, one show per line: film,room,start,end
+// Dates are written as "yyyy-mm-dd HH:mm" in local time. When importing, films and
+// rooms are matched by name (ignoring case), dates may also be "dd-mm-yyyy HH:mm"
+// or "dd/mm/yyyy HH:mm", and ";" works as separator too (Dutch spreadsheets).
+
+export const CSV_COLUMNS = ["film", "room", "start", "end"];
+
+export interface ImportRow {
+  // line in the file, starting at 1
+  line: number;
+  cells: string[];
+  // set when the row can be imported
+  show?: ShowProp;
+  // why it can't: unknown names, bad dates
+  problems: string[];
+  conflicts: ScheduleConflict[];
+}
+
+const formatCsvDate = (date: Date | string) => `${dateKey(date)} ${formatTime(date)}`;
+
+export function parseCsvDate(value: string): Date | undefined {
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})(?::\d{2})?$/);
+  const dutch = value.trim().match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})[ T](\d{1,2}):(\d{2})(?::\d{2})?$/);
+  const [year, month, day, hours, minutes] = iso
+    ? [iso[1], iso[2], iso[3], iso[4], iso[5]].map(Number)
+    : dutch
+      ? [dutch[3], dutch[2], dutch[1], dutch[4], dutch[5]].map(Number)
+      : [];
+  if (year === undefined || hours > 23 || minutes > 59) return undefined;
+
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // new Date rolls 31-02 over to March, a real date comes out the same
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return date;
+}
+
+function csvCell(value: string): string {
+  return /[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Lines of cells, quotes and quoted separators/newlines handled
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/)[0] ?? "";
+  const separator = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+  const rows: string[][] = [[]];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      rows[rows.length - 1].push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      rows[rows.length - 1].push(cell.replace(/\r$/, ""));
+      rows.push([]);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  rows[rows.length - 1].push(cell.replace(/\r$/, ""));
+  return rows;
+}
+
+// The shows starting between from and until (both "yyyy-mm-dd", included) as CSV
+export function exportScheduleCsv(
+  shows: ShowProp[],
+  movies: MovieProp[],
+  rooms: ZaalProp[],
+  from: string,
+  until: string
+): string {
+  const start = new Date(`${from}T00:00`);
+  const end = new Date(`${until}T23:59:59`);
+  const lines = shows
+    .filter((s) => new Date(s.start_date) >= start && new Date(s.start_date) <= end)
+    .sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime())
+    .map((s) =>
+      [
+        movies.find((m) => m.id === s.movieId)?.name ?? "",
+        rooms.find((z) => z.id === s.zaalId)?.naam ?? "",
+        formatCsvDate(s.start_date),
+        formatCsvDate(s.end_date),
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n");
+}
+
+export function downloadCsv(content: string, fileName: string) {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Checks every line of an import on its own, nothing is saved.
+// Rows are also checked against the rows above them in the file.
+export function checkImport(text: string, movies: MovieProp[], rooms: ZaalProp[], shows: ShowProp[]): ImportRow[] {
+  const byName = <T>(items: T[], name: (item: T) => string, value: string) =>
+    items.find((item) => name(item).trim().toLowerCase() === value.trim().toLowerCase());
+  const accepted: ShowProp[] = [];
+
+  return parseCsv(text)
+    .map((cells, i) => ({ cells, line: i + 1 }))
+    .filter(({ cells }) => cells.some((c) => c.trim() !== ""))
+    .filter(({ cells, line }) => !(line === 1 && cells[0]?.trim().toLowerCase() === CSV_COLUMNS[0]))
+    .map(({ cells, line }) => {
+      const row: ImportRow = { line, cells, problems: [], conflicts: [] };
+      if (cells.length < CSV_COLUMNS.length) {
+        row.problems.push(`Expected ${CSV_COLUMNS.length} columns (${CSV_COLUMNS.join(", ")}), found ${cells.length}`);
+        return row;
+      }
+
+      const [filmName, roomName, startText, endText] = cells;
+      const movie = byName(movies, (m) => m.name, filmName);
+      const zaal = byName(rooms, (z) => z.naam, roomName);
+      const start = parseCsvDate(startText);
+      const end = parseCsvDate(endText);
+      if (!movie) row.problems.push(`Unknown film "${filmName}"`);
+      if (!zaal) row.problems.push(`Unknown room "${roomName}"`);
+      if (!start) row.problems.push(`Bad start date "${startText}"`);
+      if (!end) row.problems.push(`Bad end date "${endText}"`);
+      if (!movie || !zaal || !start || !end) return row;
+
+      if (start >= end) {
+        row.problems.push("Start is not before end");
+        return row;
+      }
+      if (showEnd(start, movie.duration) > end) {
+        row.problems.push(`Too short for the film (${movie.duration} min) and the pre-show`);
+        return row;
+      }
+
+      const show: ShowProp = { id: "", movieId: movie.id, zaalId: zaal.id, start_date: start, end_date: end };
+      const duplicate = shows.some(
+        (s) => s.movieId === movie.id && s.zaalId === zaal.id && new Date(s.start_date).getTime() === start.getTime()
+      );
+      if (duplicate) {
+        row.problems.push("Already in the schedule");
+        return row;
+      }
+
+      row.conflicts = findConflicts(show, [...shows, ...accepted], SCHEDULING_RULES, zaal);
+      if (!hasErrors(row.conflicts)) {
+        row.show = show;
+        accepted.push(show);
+      }
+      return row;
+    });
+}
@@ -0,0 +1,137 @@
+import type { ShowProp, ZaalProp } from "./fake-data";
+
+// Rules for planning shows:
+// - two shows in the same zaal may not overlap
+// - between two shows in a zaal there is time to clean it: the zaal's cleaning time, or cleaningBufferMinutes
+// - shows should start after opening and end before closing (closing may be after midnight)
+// Breaking the first two blocks saving, being outside opening hours is only a warning.
+
+export const SCHEDULING_RULES = {
+  cleaningBufferMinutes: 15,
+  // ads and trailers between the start of the show and the film, for new shows
+  // (each show stores its own, see ShowProp.preShowMinutes)
+  preShowMinutes: 20,
+  // suggested length when a show gets an intermission
+  intermissionMinutes: 15,
+  // "HH:mm", local time
+  openingTime: "10:00",
+  closingTime: "01:00",
+};
+
+export type SchedulingRules = typeof SCHEDULING_RULES;
+
+export type ConflictKind = "overlap" | "buffer" | "opening-hours";
+
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  // errors can't be saved, warnings can after confirming
+  severity: "error" | "warning";
+  message: string;
+  // the show it clashes with, not set for opening hours
+  other?: ShowProp;
+}
+
+const MINUTE = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+const time = (date: Date | string) => new Date(date).getTime();
+
+export const cleaningMinutesFor = (zaal?: ZaalProp, rules: SchedulingRules = SCHEDULING_RULES) =>
+  zaal?.cleaningMinutes ?? rules.cleaningBufferMinutes;
+
+// ----- Show times -----
+// A show starts with the pre-show block, then the film (with an intermission if it has one).
+// The show ends when the audience leaves; the zaal is ready again after its cleaning time.
+
+// The breaks stored on a show; left out means the rules' pre-show and no intermission
+export type ShowBreaks = Pick<ShowProp, "preShowMinutes" | "intermissionMinutes">;
+
+export function showMinutes(filmMinutes: number, breaks: ShowBreaks = {}, rules: SchedulingRules = SCHEDULING_RULES): number {
+  return (breaks.preShowMinutes ?? rules.preShowMinutes) + filmMinutes + (breaks.intermissionMinutes ?? 0);
+}
+
+export function showEnd(start: Date | string, filmMinutes: number, breaks: ShowBreaks = {}, rules: SchedulingRules = SCHEDULING_RULES): Date {
+  return new Date(time(start) + showMinutes(filmMinutes, breaks, rules) * MINUTE);
+}
+
+export function filmStart(start: Date | string, preShowMinutes?: number, rules: SchedulingRules = SCHEDULING_RULES): Date {
+  return new Date(time(start) + (preShowMinutes ?? rules.preShowMinutes) * MINUTE);
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Monday 00:00 of the week the date is in
+export function startOfWeek(date: Date): Date {
+  const monday = new Date(date);
+  monday.setHours(0, 0, 0, 0);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+// When the cinema opens (minutes after midnight) and for how many minutes
+export function openingPeriod(rules: SchedulingRules = SCHEDULING_RULES): { opensAt: number; openFor: number } {
+  const opensAt = toMinutes(rules.openingTime);
+  const closesAt = toMinutes(rules.closingTime);
+  return { opensAt, openFor: (closesAt - opensAt + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES };
+}
+
+// Whether start..end lies within one opening period
+export function withinOpeningHours(start: Date | string, end: Date | string, rules: SchedulingRules = SCHEDULING_RULES): boolean {
+  const { opensAt, openFor } = openingPeriod(rules);
+  const startDate = new Date(start);
+  // minutes since the (last) opening
+  const sinceOpening = (startDate.getHours() * 60 + startDate.getMinutes() - opensAt + DAY_MINUTES) % DAY_MINUTES;
+  const duration = (time(end) - time(start)) / MINUTE;
+  return sinceOpening + duration <= openFor;
+}
+
+// Everything wrong with planning `show` next to the other shows.
+// `show` itself (same id) is left out of `shows`, so it can be passed while editing.
+// Pass the zaal to use its own cleaning time.
+export function findConflicts(
+  show: ShowProp,
+  shows: ShowProp[],
+  rules: SchedulingRules = SCHEDULING_RULES,
+  zaal?: ZaalProp
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const start = time(show.start_date);
+  const end = time(show.end_date);
+  const cleaning = cleaningMinutesFor(zaal, rules);
+  const buffer = cleaning * MINUTE;
+
+  const sameRoom = shows
+    .filter((s) => s.zaalId === show.zaalId && (!show.id || s.id !== show.id))
+    .sort((a, b) => time(a.start_date) - time(b.start_date));
+
+  for (const other of sameRoom) {
+    const otherStart = time(other.start_date);
+    const otherEnd = time(other.end_date);
+    if (start < otherEnd && otherStart < end) {
+      conflicts.push({ kind: "overlap", severity: "error", message: "Overlaps with", other });
+    } else if (start < otherEnd + buffer && otherStart < end + buffer) {
+      const gap = Math.round(Math.max(otherStart - end, start - otherEnd) / MINUTE);
+      conflicts.push({
+        kind: "buffer",
+        severity: "error",
+        message: `Only ${gap} min for cleaning (${cleaning} needed) next to`,
+        other,
+      });
+    }
+  }
+
+  if (!withinOpeningHours(show.start_date, show.end_date, rules)) {
+    conflicts.push({
+      kind: "opening-hours",
+      severity: "warning",
+      message: `Outside opening hours (${rules.openingTime} - ${rules.closingTime})`,
+    });
+  }
+
+  return conflicts;
+}
+
+export const hasErrors = (conflicts: ScheduleConflict[]) => conflicts.some((c) => c.severity === "error");
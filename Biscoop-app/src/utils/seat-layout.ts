@@ -0,0 +1,99 @@
+import type { ZaalProp } from "./fake-data";
+
+// A room layout is saved as text: one line per row, one character per cell.
+// e.g. "SSAPPAS\nWCA__AS" -> rijen and stoelenPerRij give the grid size.
+export type SeatCellType = "seat" | "aisle" | "gap" | "wheelchair" | "companion" | "premium" | "loveseat";
+
+export const SEAT_CELL_TYPES: { type: SeatCellType; code: string; label: string }[] = [
+  { type: "seat", code: "S", label: "Seat" },
+  { type: "aisle", code: "A", label: "Aisle" },
+  { type: "gap", code: "_", label: "Gap (no seat)" },
+  { type: "wheelchair", code: "W", label: "Wheelchair space" },
+  { type: "companion", code: "C", label: "Companion seat" },
+  { type: "premium", code: "P", label: "Premium seat" },
+  { type: "loveseat", code: "L", label: "Loveseat" },
+];
+
+const typeByCode = new Map(SEAT_CELL_TYPES.map((t) => [t.code, t.type]));
+const codeByType = new Map(SEAT_CELL_TYPES.map((t) => [t.type, t.code]));
+
+export function cellLabel(type: SeatCellType): string {
+  return SEAT_CELL_TYPES.find((t) => t.type === type)?.label ?? type;
+}
+
+// Aisles and gaps are part of the grid but can't be booked
+export function isBookable(type: SeatCellType): boolean {
+  return type !== "aisle" && type !== "gap";
+}
+
+// Grid of rijen x stoelenPerRij cells. Rooms without a saved layout (or cells
+// outside it after the room was resized) are plain seats.
+export function parseLayout(zaal: ZaalProp): SeatCellType[][] {
+  const lines = zaal.layout ? zaal.layout.split("\n") : [];
+  return Array.from({ length: Math.max(zaal.rijen, 0) }, (_, row) =>
+    Array.from({ length: Math.max(zaal.stoelenPerRij, 0) }, (_, col) =>
+      typeByCode.get(lines[row]?.[col] ?? "") ?? "seat"
+    )
+  );
+}
+
+export function serializeLayout(grid: SeatCellType[][]): string {
+  return grid.map((row) => row.map((type) => codeByType.get(type) ?? "S").join("")).join("\n");
+}
+
+export function countSeats(zaal: ZaalProp): number {
+  return parseLayout(zaal).flat().filter(isBookable).length;
+}
+
+// ----- Seat labels -----
+// Seats are labeled with a row letter and a seat number in that row (A1 ... L20).
+// Aisles and gaps don't get a number. The label is what is saved as Stoelnummer
+// on a reservation and printed on the ticket.
+
+export interface SeatMapCell {
+  type: SeatCellType;
+  label: string | null;
+}
+
+export interface SeatMapRow {
+  label: string;
+  cells: SeatMapCell[];
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export function rowLetter(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : rowLetter(Math.floor(index / 26) - 1) + letter;
+}
+
+// Rows in grid order: the first row is the one nearest the screen
+export function buildSeatMap(zaal: ZaalProp): SeatMapRow[] {
+  const grid = parseLayout(zaal);
+  const firstRowAtScreen = zaal.firstRowAtScreen ?? true;
+  const numberFromLeft = zaal.numberFromLeft ?? true;
+
+  return grid.map((cells, row) => {
+    const label = rowLetter(firstRowAtScreen ? row : grid.length - 1 - row);
+    const seatsInRow = cells.filter(isBookable).length;
+    let seatIndex = 0;
+    return {
+      label,
+      cells: cells.map((type) => {
+        if (!isBookable(type)) return { type, label: null };
+        seatIndex++;
+        return { type, label: `${label}${numberFromLeft ? seatIndex : seatsInRow - seatIndex + 1}` };
+      }),
+    };
+  });
+}
+
+// The category of each labeled seat, e.g. for seat surcharges
+export function seatTypesOf(zaal: ZaalProp, labels: string[]): SeatCellType[] {
+  const types = new Map<string, SeatCellType>();
+  for (const row of buildSeatMap(zaal)) {
+    for (const cell of row.cells) {
+      if (cell.label) types.set(cell.label, cell.type);
+    }
+  }
+  return labels.flatMap((label) => types.get(label) ?? []);
+}
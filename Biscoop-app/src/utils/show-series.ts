@@ -0,0 +1,127 @@
+import type { ShowProp, ZaalProp } from "./fake-data";
+import { SCHEDULING_RULES, findConflicts, showEnd } from "./scheduling";
+import type { ScheduleConflict } from "./scheduling";
+
+// A recurring series of shows, e.g. "Dune in zaal 1 at 19:30 every day for three weeks".
+// Every combination of a date in the range, on one of the weekdays, and one of the
+// times becomes a show, except on the exception dates.
+
+export interface ShowSeries {
+  movieId: string;
+  zaalId: string;
+  // "HH:mm", local time
+  times: string[];
+  // 0 = Sunday ... 6 = Saturday
+  weekdays: number[];
+  // "yyyy-mm-dd", both included
+  from: string;
+  until: string;
+  // "yyyy-mm-dd", days without shows
+  exceptions: string[];
+  price?: number;
+}
+
+export interface SeriesOccurrence {
+  show: ShowProp;
+  conflicts: ScheduleConflict[];
+}
+
+// a series never grows beyond this, so a typo in a year can't plan thousands of shows
+export const MAX_SERIES_SHOWS = 500;
+
+const MINUTE = 60 * 1000;
+
+// yyyy-mm-dd in local time
+export function dateKey(date: Date | string): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+const timeKey = (date: Date | string) =>
+  new Date(date).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+
+// Every upcoming show of the series, earliest first. A show lasts `minutes`.
+// Stops at one show more than MAX_SERIES_SHOWS, so a series that is too long shows up.
+export function seriesShows(series: ShowSeries, minutes: number, now: Date = new Date()): ShowProp[] {
+  const shows: ShowProp[] = [];
+  const times = [...series.times].sort();
+  const last = new Date(`${series.until}T00:00`);
+
+  for (const day = new Date(`${series.from}T00:00`); day <= last; day.setDate(day.getDate() + 1)) {
+    if (!series.weekdays.includes(day.getDay()) || series.exceptions.includes(dateKey(day))) continue;
+    for (const time of times) {
+      const start = new Date(`${dateKey(day)}T${time}`);
+      if (start <= now) continue;
+      shows.push({
+        id: "",
+        movieId: series.movieId,
+        zaalId: series.zaalId,
+        start_date: start,
+        end_date: new Date(start.getTime() + minutes * MINUTE),
+        price: series.price,
+      });
+      if (shows.length > MAX_SERIES_SHOWS) return shows;
+    }
+  }
+  return shows;
+}
+
+// When a series is edited, the planned shows take over the ids of its current shows,
+// so a show that only moves keeps its reservations. Shows are matched per day, in order of time.
+// A matched show also keeps its own pre-show and intermission, and its price when that
+// differs from `seriesPrice`, the price the series had before the edit.
+export function keepExistingIds(planned: ShowProp[], existing: ShowProp[], filmMinutes: number, seriesPrice?: number): ShowProp[] {
+  const byDay = new Map<string, ShowProp[]>();
+  for (const show of [...existing].sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime())) {
+    byDay.set(dateKey(show.start_date), [...(byDay.get(dateKey(show.start_date)) ?? []), show]);
+  }
+  return planned.map((show) => {
+    const match = byDay.get(dateKey(show.start_date))?.shift();
+    if (!match) return show;
+    return {
+      ...show,
+      id: match.id,
+      seriesId: match.seriesId,
+      end_date: showEnd(show.start_date, filmMinutes, match),
+      price: match.price !== seriesPrice ? match.price : show.price,
+      preShowMinutes: match.preShowMinutes,
+      intermissionMinutes: match.intermissionMinutes,
+    };
+  });
+}
+
+// The planned shows with what they clash with: the rest of the programme and each other.
+// Shows of the series being edited are left out of the programme, they are replaced.
+export function previewSeries(planned: ShowProp[], shows: ShowProp[], seriesId?: string, zaal?: ZaalProp): SeriesOccurrence[] {
+  const programme = shows.filter((s) => !seriesId || s.seriesId !== seriesId);
+  return planned.map((show, i) => ({
+    show,
+    conflicts: findConflicts(show, [...programme, ...planned.filter((_, j) => j !== i)], SCHEDULING_RULES, zaal),
+  }));
+}
+
+// The series that would plan these shows again, to start editing it
+export function seriesFromShows(shows: ShowProp[]): ShowSeries | undefined {
+  const sorted = [...shows].sort((a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime());
+  if (sorted.length === 0) return undefined;
+  const days = new Set(sorted.map((s) => dateKey(s.start_date)));
+  const weekdays = [...new Set(sorted.map((s) => new Date(s.start_date).getDay()))].sort();
+
+  // days in the range on one of the weekdays without a show were exceptions
+  const exceptions: string[] = [];
+  const last = new Date(`${dateKey(sorted[sorted.length - 1].start_date)}T00:00`);
+  for (const day = new Date(`${dateKey(sorted[0].start_date)}T00:00`); day <= last; day.setDate(day.getDate() + 1)) {
+    if (weekdays.includes(day.getDay()) && !days.has(dateKey(day))) exceptions.push(dateKey(day));
+  }
+
+  return {
+    movieId: sorted[0].movieId,
+    zaalId: sorted[0].zaalId,
+    times: [...new Set(sorted.map((s) => timeKey(s.start_date)))].sort(),
+    weekdays,
+    from: dateKey(sorted[0].start_date),
+    until: dateKey(last),
+    exceptions,
+    price: sorted[0].price,
+  };
+}